@@ -1,29 +1,140 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ServiceAlert } from '@/lib/types';
-import { fetchServiceAlerts } from '@/lib/gtfs-realtime';
+import {
+  getServiceAlerts,
+  getCaltrainAlerts,
+  getSimplifyAlerts,
+  getTwitterAlerts,
+  getSourceAges
+} from '@/lib/realtime-sources';
+import { isAlertActive } from '@/lib/gtfs-realtime';
+import { AlertRecord, updateAlertRegistry, getActiveAlertRecords, getResolvedAlertRecords } from '@/lib/alert-registry';
+import {
+  MergedAlert,
+  NormalizedAlert,
+  normalize511Alerts,
+  normalizeCaltrainAlerts,
+  normalizeSimplifyAlerts,
+  normalizeTwitterDelays,
+  mergeAlerts,
+  filterMergedAlerts
+} from '@/lib/alert-merger';
+import { isTwitterAlertsEnabled } from '@/lib/twitter-alerts-scraper';
+import { getStationIndex, getStationStopIds } from '@/lib/gtfs-static';
+import { getStationById } from '@/lib/stations';
+
+/**
+ * Fetch every alert source from the shared scheduler and merge reports of the same incident
+ *
+ * @returns Merged alerts and the newest source fetch time (null if nothing has been fetched)
+ */
+async function fetchMergedAlerts(): Promise<{ alerts: MergedAlert[]; fetchedAt: Date | null }> {
+  const [feed, caltrain, simplify, twitter, stationIndex] = await Promise.all([
+    getServiceAlerts(),
+    getCaltrainAlerts(),
+    getSimplifyAlerts(),
+    isTwitterAlertsEnabled() ? getTwitterAlerts() : Promise.resolve(null),
+    getStationIndex(),
+  ]);
+
+  const reports: NormalizedAlert[] = [];
+  if (feed.fetchedAt) {
+    reports.push(...normalize511Alerts(feed.value, feed.fetchedAt, (stopId) => stationIndex?.byStopId.get(stopId)));
+  }
+  if (caltrain.fetchedAt) {
+    reports.push(...normalizeCaltrainAlerts(caltrain.value, caltrain.fetchedAt));
+  }
+  if (simplify.fetchedAt) {
+    reports.push(...normalizeSimplifyAlerts(simplify.value, simplify.fetchedAt));
+  }
+  if (twitter?.fetchedAt) {
+    reports.push(...normalizeTwitterDelays(twitter.value, twitter.fetchedAt));
+  }
+
+  const fetchTimes = [feed, caltrain, simplify, twitter]
+    .map((source) => source?.fetchedAt?.getTime())
+    .filter((time): time is number => time !== undefined);
+
+  return {
+    alerts: mergeAlerts(reports),
+    fetchedAt: fetchTimes.length > 0 ? new Date(Math.max(...fetchTimes)) : null,
+  };
+}
+
+/**
+ * Convert a tracked alert to the client format
+ */
+function toServiceAlert(record: AlertRecord<MergedAlert>): ServiceAlert {
+  const { alert } = record;
+  const start = alert.activePeriods.find((period) => period.start > 0)?.start;
+  const end = alert.activePeriods.find((period) => period.end > 0)?.end;
+
+  return {
+    id: alert.id,
+    severity: alert.severity,
+    title: alert.headerText,
+    description: alert.descriptionText,
+    timestamp: start ? new Date(start * 1000).toISOString() : record.firstSeen,
+    url: alert.url,
+    lastSeen: record.lastSeen,
+    endsAt: end ? new Date(end * 1000).toISOString() : undefined,
+    resolvedAt: record.resolvedAt,
+    sources: alert.sources,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  // ?station= and ?trip= may be repeated or comma-separated
+  const listParam = (name: string) =>
+    searchParams.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+  const stationIds = listParam('station');
+  const tripIds = listParam('trip');
+
+  const unknownStation = stationIds.find((id) => !getStationById(id));
+  if (unknownStation) {
+    return NextResponse.json(
+      { error: `Invalid station ID: ${unknownStation}` },
+      { status: 400 }
+    );
+  }
 
-export async function GET() {
   try {
     // Check if API key is configured
     const hasApiKey = !!process.env.TRANSIT_API_KEY;
 
-    if (hasApiKey) {
-      // Fetch real-time service alerts from 511.org
-      const gtfsAlerts = await fetchServiceAlerts();
+    // 511.org alerts merged with Caltrain.com, SimplifyTransit and (opt-in) @CaltrainAlerts
+    const merged = await fetchMergedAlerts();
 
-      // Convert to our ServiceAlert format
-      const alerts: ServiceAlert[] = gtfsAlerts.map((alert) => ({
-        id: alert.id,
-        severity: alert.severity,
-        title: alert.headerText,
-        description: alert.descriptionText,
-        timestamp: new Date().toISOString(),
-      }));
+    if (hasApiKey || merged.alerts.length > 0) {
+      // Track first/last seen and clearing once per source refresh
+      if (merged.fetchedAt) {
+        updateAlertRegistry(merged.alerts, merged.fetchedAt);
+      }
+
+      // Keep alerts that concern the requested stations or trips
+      const filter = {
+        stationIds: stationIds.length > 0 ? stationIds : undefined,
+        stopIds: stationIds.length > 0 ? await getStationStopIds(stationIds) : undefined,
+        tripIds: tripIds.length > 0 ? tripIds : undefined,
+      };
+      const relevant = (records: AlertRecord<MergedAlert>[]) => {
+        const matching = new Set(filterMergedAlerts(records.map((record) => record.alert), filter));
+        return records.filter((record) => matching.has(record.alert));
+      };
+
+      const alerts = relevant(getActiveAlertRecords<MergedAlert>())
+        .filter((record) => isAlertActive(record.alert))
+        .map(toServiceAlert);
+      const resolvedAlerts = relevant(getResolvedAlertRecords<MergedAlert>()).map(toServiceAlert);
 
       // Return real data (even if empty array - that means no alerts today)
       return NextResponse.json({
         alerts,
-        isMockData: false
+        resolvedAlerts, // Cleared in the last few hours
+        isMockData: false,
+        sourceAges: getSourceAges() // Milliseconds since each source was fetched
       }, {
         headers: {
           'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600'
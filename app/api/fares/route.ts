@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { getFareQuote } from '@/lib/gtfs-static';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+  const category = searchParams.get('category');
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  if (origin === destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination must be different stations' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await getFareQuote(origin, destination);
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'No fare found for this route' },
+        { status: 404 }
+      );
+    }
+
+    // Optionally narrow to a single rider category
+    let fares = quote.prices;
+    if (category) {
+      fares = quote.prices.filter((p) => p.category === category.toLowerCase());
+      if (fares.length === 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid fare category',
+            categories: quote.prices.map((p) => p.category)
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      origin,
+      destination,
+      originZone: quote.originZone,
+      destinationZone: quote.destinationZone,
+      zones: quote.zones,
+      currency: quote.currency,
+      // Caltrain charges the same one-way fare on Clipper and paper tickets
+      fareMedia: ['clipper', 'ticket'],
+      fares
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+      }
+    });
+  } catch (error) {
+    console.error('Error calculating fare:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate fare' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { readDelayHistory, buildReliabilityReport, ON_TIME_THRESHOLD_MINUTES } from '@/lib/delay-history';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+  const daysParam = searchParams.get('days');
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation || origin === destination) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  const days = daysParam ? parseInt(daysParam) : DEFAULT_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `Invalid days, expected 1-${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const observations = await readDelayHistory(days);
+    const trains = buildReliabilityReport(observations, origin, destination);
+    // History is only recorded while the app is being polled, so not every day in the window is covered
+    const sampledDays = new Set(observations.map((observation) => observation.serviceDate)).size;
+
+    return NextResponse.json({
+      origin,
+      destination,
+      days,
+      sampledDays,
+      onTimeThreshold: ON_TIME_THRESHOLD_MINUTES,
+      trains
+    }, {
+      headers: {
+        // History only grows as trains run - a few minutes of staleness is fine
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Error building reliability report:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reliability report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { getRouteShape } from '@/lib/gtfs-static';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation || origin === destination) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const corridor = await getRouteShape(origin, destination);
+
+    if (!corridor) {
+      return NextResponse.json(
+        { error: 'No shape found for this route' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ origin, destination, corridor }, {
+      headers: {
+        // Track geometry only changes with the GTFS feed
+        'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800'
+      }
+    });
+  } catch (error) {
+    console.error('Error loading route shape:', error);
+    return NextResponse.json(
+      { error: 'Failed to load route shape' },
+      { status: 500 }
+    );
+  }
+}
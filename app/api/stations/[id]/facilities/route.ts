@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceAlerts, getCaltrainAlerts } from '@/lib/realtime-sources';
+import { getStationIndex } from '@/lib/gtfs-static';
+import { collectFacilityOutages } from '@/lib/facility-outages';
+import { getStationById } from '@/lib/stations';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!getStationById(id)) {
+    return NextResponse.json(
+      { error: 'Station not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const [feed, caltrain, stationIndex] = await Promise.all([
+      getServiceAlerts(),
+      getCaltrainAlerts(),
+      getStationIndex(),
+    ]);
+
+    const facilities = collectFacilityOutages(
+      feed.value,
+      caltrain.value,
+      (stopId) => stationIndex?.byStopId.get(stopId)
+    ).filter((outage) => outage.stationId === id);
+
+    return NextResponse.json({
+      stationId: id,
+      outages: facilities.filter((outage) => outage.status === 'out-of-service'),
+      restored: facilities.filter((outage) => outage.status === 'restored'),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120'
+      }
+    });
+  } catch (error) {
+    console.error('Error loading station facilities:', error);
+    return NextResponse.json(
+      { error: 'Failed to load station facilities' },
+      { status: 500 }
+    );
+  }
+}
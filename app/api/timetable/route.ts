@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { getTimetable } from '@/lib/gtfs-static';
+import { getPacificDateString, isValidDateString, pacificDateTime } from '@/lib/pacific-time';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+  const date = searchParams.get('date') || getPacificDateString(new Date());
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation || origin === destination) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidDateString(date)) {
+    return NextResponse.json(
+      { error: 'Invalid date, expected YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Noon is safely inside the service day regardless of DST
+    const trains = await getTimetable(origin, destination, pacificDateTime(date, '12:00'));
+
+    return NextResponse.json({
+      origin,
+      destination,
+      date,
+      trains
+    }, {
+      headers: {
+        // Schedule-only data; changes only when the GTFS feed is refreshed
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+      }
+    });
+  } catch (error) {
+    console.error('Error building timetable:', error);
+    return NextResponse.json(
+      { error: 'Failed to load timetable' },
+      { status: 500 }
+    );
+  }
+}
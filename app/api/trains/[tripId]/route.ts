@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripUpdates } from '@/lib/realtime-sources';
+import { getTrainDetail } from '@/lib/gtfs-static';
+import { getPacificDateString, isValidDateString, pacificDateTime } from '@/lib/pacific-time';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  const { tripId } = await params;
+  const today = getPacificDateString(new Date());
+  const date = request.nextUrl.searchParams.get('date') || today;
+
+  if (!isValidDateString(date)) {
+    return NextResponse.json(
+      { error: 'Invalid date, expected YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  // Real-time estimates only apply to today's trips
+  const isLiveQuery = date === today;
+
+  try {
+    const tripUpdates = isLiveQuery ? (await getTripUpdates()).value : [];
+    const train = await getTrainDetail(tripId, pacificDateTime(date, '12:00'), tripUpdates);
+
+    if (!train) {
+      return NextResponse.json(
+        { error: 'Train not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ train }, {
+      headers: {
+        'Cache-Control': isLiveQuery
+          ? 'public, s-maxage=30, stale-while-revalidate=60'
+          : 'public, s-maxage=3600, stale-while-revalidate=86400'
+      }
+    });
+  } catch (error) {
+    console.error('Error loading train detail:', error);
+    return NextResponse.json(
+      { error: 'Failed to load train detail' },
+      { status: 500 }
+    );
+  }
+}
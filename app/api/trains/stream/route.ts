@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { subscribeToTrains, TrainStreamEvent } from '@/lib/train-stream';
+
+// Long-lived connection backed by the shared in-process poller
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation || origin === destination) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: TrainStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`));
+        } catch {
+          // Client already went away
+          unsubscribe?.();
+        }
+      };
+
+      // Tell EventSource to wait 10s before reconnecting after a drop
+      controller.enqueue(encoder.encode('retry: 10000\n\n'));
+      unsubscribe = subscribeToTrains(origin, destination, send);
+
+      request.signal.addEventListener('abort', () => {
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
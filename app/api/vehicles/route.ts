@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStationById } from '@/lib/stations';
+import { getVehiclePositions } from '@/lib/realtime-sources';
+import { getRouteVehicles } from '@/lib/gtfs-static';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const origin = searchParams.get('origin');
+  const destination = searchParams.get('destination');
+
+  if (!origin || !destination) {
+    return NextResponse.json(
+      { error: 'Origin and destination are required' },
+      { status: 400 }
+    );
+  }
+
+  // Validate stations exist
+  const originStation = getStationById(origin);
+  const destinationStation = getStationById(destination);
+
+  if (!originStation || !destinationStation || origin === destination) {
+    return NextResponse.json(
+      { error: 'Invalid station ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { value: vehicles, ageMs } = await getVehiclePositions();
+    const positions = await getRouteVehicles(origin, destination, vehicles);
+
+    return NextResponse.json({
+      vehicles: positions,
+      isLive: vehicles.length > 0, // False when TRANSIT_API_KEY is missing or 511.org is unavailable
+      ageMs // Milliseconds since the positions were fetched
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle positions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vehicle positions' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,14 +3,24 @@
 import { useState } from 'react';
 import StationSelector from '@/components/StationSelector';
 import TrainList from '@/components/TrainList';
+import Timetable from '@/components/Timetable';
+import ReliabilityPanel from '@/components/ReliabilityPanel';
+import TrainMap from '@/components/TrainMap';
 import WeatherWidget from '@/components/WeatherWidget';
 import ServiceAlerts from '@/components/ServiceAlerts';
+import AccessibilityWarnings from '@/components/AccessibilityWarnings';
 import SavedRoutes from '@/components/SavedRoutes';
 import VenueEvents from '@/components/VenueEvents';
+import { TripTime } from '@/lib/types';
+import { getPacificDateString, getPacificTimeString } from '@/lib/pacific-time';
 
 export default function Home() {
   const [originId, setOriginId] = useState('');
   const [destinationId, setDestinationId] = useState('');
+  const [tripTime, setTripTime] = useState<TripTime>(() => {
+    const now = new Date();
+    return { mode: 'now', date: getPacificDateString(now), time: getPacificTimeString(now) };
+  });
 
   const handleSwap = () => {
     if (originId && destinationId) {
@@ -30,7 +40,15 @@ export default function Home() {
   return (
     <div className="space-y-6">
       {/* Service Alerts - Show at top if any */}
-      <ServiceAlerts />
+      <ServiceAlerts
+        originId={isValidRoute ? originId : undefined}
+        destinationId={isValidRoute ? destinationId : undefined}
+      />
+
+      {/* Elevator and escalator outages at the selected stations */}
+      {isValidRoute && (
+        <AccessibilityWarnings originId={originId} destinationId={destinationId} />
+      )}
 
       {/* Event Crowding Alerts */}
       <VenueEvents />
@@ -42,6 +60,8 @@ export default function Home() {
         onOriginChange={setOriginId}
         onDestinationChange={setDestinationId}
         onSwap={handleSwap}
+        tripTime={tripTime}
+        onTripTimeChange={setTripTime}
       />
 
       {/* Saved Routes */}
@@ -61,7 +81,22 @@ export default function Home() {
           </div>
 
           {/* Train Schedule */}
-          <TrainList originId={originId} destinationId={destinationId} />
+          <TrainList originId={originId} destinationId={destinationId} tripTime={tripTime} />
+
+          {/* Live Train Map */}
+          {tripTime.mode === 'now' && (
+            <TrainMap originId={originId} destinationId={destinationId} />
+          )}
+
+          {/* Full Day Timetable */}
+          <Timetable
+            originId={originId}
+            destinationId={destinationId}
+            date={tripTime.mode === 'now' ? getPacificDateString(new Date()) : tripTime.date}
+          />
+
+          {/* Historical On-Time Performance */}
+          <ReliabilityPanel originId={originId} destinationId={destinationId} />
         </>
       )}
 
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FacilityOutage } from '@/lib/types';
+import { getStationById } from '@/lib/stations';
+
+interface AccessibilityWarningsProps {
+  originId: string;
+  destinationId: string;
+}
+
+export default function AccessibilityWarnings({ originId, destinationId }: AccessibilityWarningsProps) {
+  const [outages, setOutages] = useState<FacilityOutage[]>([]);
+
+  useEffect(() => {
+    const fetchOutages = async () => {
+      try {
+        const responses = await Promise.all(
+          [originId, destinationId].map((id) => fetch(`/api/stations/${id}/facilities`))
+        );
+        const results = await Promise.all(
+          responses.filter((response) => response.ok).map((response) => response.json())
+        );
+        setOutages(results.flatMap((data) => data.outages || []));
+      } catch (error) {
+        console.error('Error fetching station facilities:', error);
+      }
+    };
+
+    fetchOutages();
+
+    // Auto-refresh every 5 minutes
+    const interval = setInterval(fetchOutages, 300000);
+    return () => clearInterval(interval);
+  }, [originId, destinationId]);
+
+  if (outages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-purple-50 dark:bg-purple-900/30 border-l-4 border-purple-400 dark:border-purple-600 rounded-lg p-4 shadow-sm">
+      <h3 className="font-semibold text-sm text-purple-900 dark:text-purple-200 mb-1">
+        Accessibility
+      </h3>
+      <ul className="space-y-1">
+        {outages.map((outage) => {
+          const station = getStationById(outage.stationId);
+          const role = outage.stationId === originId ? 'origin' : 'destination';
+
+          return (
+            <li
+              key={`${outage.stationId}-${outage.facility}-${outage.direction || ''}`}
+              className="text-sm text-purple-700 dark:text-purple-300"
+            >
+              <span className="capitalize">{outage.facility}</span> out of service at {station?.name || outage.stationId}
+              {outage.direction && ` (${outage.direction} platform)`}
+              <span className="text-xs opacity-75"> · your {role}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
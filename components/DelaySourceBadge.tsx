@@ -0,0 +1,49 @@
+'use client';
+
+import { DelaySource, Train } from '@/lib/types';
+
+interface DelaySourceBadgeProps {
+  train: Pick<Train, 'delaySource' | 'observedAt' | 'delayConfidence' | 'conflictingDelays'>;
+}
+
+const SOURCE_LABELS: Record<DelaySource, { short: string; long: string }> = {
+  'gtfs-rt': { short: 'Live', long: '511.org real-time feed' },
+  'caltrain.com': { short: 'Alert', long: 'Caltrain.com alert for this train' },
+  'twitter': { short: 'Alert', long: '@CaltrainAlerts post about this train' },
+  'caltrain.com-systemwide': { short: 'Alert', long: 'Caltrain.com system-wide alert' },
+  'simplifytransit': { short: 'Alert', long: 'SimplifyTransit system-wide alert' },
+};
+
+export default function DelaySourceBadge({ train }: DelaySourceBadgeProps) {
+  if (!train.delaySource) return null;
+
+  const label = SOURCE_LABELS[train.delaySource];
+  const observed = train.observedAt
+    ? ` as of ${new Date(train.observedAt).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: 'America/Los_Angeles',
+      })}`
+    : '';
+  const conflicts = (train.conflictingDelays || [])
+    .map((reading) => `${SOURCE_LABELS[reading.source].long}: ${reading.delay} min`)
+    .join('\n');
+  const title = [
+    `From ${label.long}${observed} · ${train.delayConfidence || 'low'} confidence`,
+    conflicts && `Other sources disagree:\n${conflicts}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded ${
+        train.delayConfidence === 'high'
+          ? 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+          : 'border border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400'
+      }`}
+      title={title}
+    >
+      {label.short}
+      {train.conflictingDelays && train.conflictingDelays.length > 0 && <span aria-label="sources disagree">≠</span>}
+    </span>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DelayStats, TrainReliability } from '@/lib/types';
+
+interface ReliabilityPanelProps {
+  originId: string;
+  destinationId: string;
+}
+
+const HISTORY_DAYS = 30;
+
+/**
+ * Format a GTFS HH:MM time (hours may exceed 24) as a 12-hour clock time
+ */
+function formatScheduledTime(time: string): string {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part));
+  const hour = hours % 24;
+  return `${hour % 12 || 12}:${String(minutes).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+function onTimeColor(percentage: number): string {
+  if (percentage >= 90) return 'text-green-700 dark:text-green-400';
+  if (percentage >= 75) return 'text-orange-600 dark:text-orange-400';
+  return 'text-red-700 dark:text-red-400';
+}
+
+function StatsCells({ stats }: { stats: DelayStats | null }) {
+  if (!stats) {
+    return (
+      <>
+        <td className="py-2 pr-4 text-gray-400 dark:text-gray-500">—</td>
+        <td className="py-2 pr-4 text-gray-400 dark:text-gray-500">—</td>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <td className={`py-2 pr-4 font-semibold ${onTimeColor(stats.onTimePercentage)}`}>
+        {stats.onTimePercentage}%
+      </td>
+      <td className="py-2 pr-4">
+        {stats.typicalDelay > 0 ? `+${stats.typicalDelay} min` : 'on time'}
+        {stats.cancelledDays > 0 && (
+          <span className="text-xs text-red-600 dark:text-red-400"> · {stats.cancelledDays} cancelled</span>
+        )}
+      </td>
+    </>
+  );
+}
+
+export default function ReliabilityPanel({ originId, destinationId }: ReliabilityPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [trains, setTrains] = useState<TrainReliability[]>([]);
+  const [onTimeThreshold, setOnTimeThreshold] = useState(5);
+  const [sampledDays, setSampledDays] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only read the history once the panel is opened
+    if (!expanded || !originId || !destinationId) {
+      return;
+    }
+
+    const fetchReliability = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/reliability?origin=${originId}&destination=${destinationId}&days=${HISTORY_DAYS}`
+        );
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch reliability report');
+        }
+
+        const data = await response.json();
+        setTrains(data.trains || []);
+        setOnTimeThreshold(data.onTimeThreshold ?? 5);
+        setSampledDays(data.sampledDays ?? 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setTrains([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReliability();
+  }, [expanded, originId, destinationId]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">On-Time Performance</h2>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium"
+        >
+          {expanded ? 'Hide' : `Show last ${HISTORY_DAYS} days`}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4">
+          {loading && trains.length === 0 ? (
+            <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-48 rounded-lg" />
+          ) : error ? (
+            <div className="bg-red-50 dark:bg-red-900/30 border-l-4 border-red-400 dark:border-red-600 p-4">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          ) : trains.length === 0 ? (
+            <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 dark:border-yellow-600 p-4">
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                No delay history recorded for this route yet. History builds up as real-time data is polled.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300">
+                    <th className="py-2 pr-4 font-semibold">Train</th>
+                    <th className="py-2 pr-4 font-semibold">Departs</th>
+                    <th className="py-2 pr-4 font-semibold">On time (depart)</th>
+                    <th className="py-2 pr-4 font-semibold">Typical (depart)</th>
+                    <th className="py-2 pr-4 font-semibold">On time (arrive)</th>
+                    <th className="py-2 pr-4 font-semibold">Typical (arrive)</th>
+                    <th className="py-2 pr-4 font-semibold">Days</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trains.map((train) => (
+                    <tr
+                      key={train.trainNumber}
+                      className="border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-100"
+                    >
+                      <td className="py-2 pr-4 font-medium">{train.trainNumber}</td>
+                      <td className="py-2 pr-4">{formatScheduledTime(train.scheduledDeparture)}</td>
+                      <StatsCells stats={train.departure} />
+                      <StatsCells stats={train.arrival} />
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                        {train.departure?.observedDays ?? 0}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                On time = within {onTimeThreshold} minutes of schedule · typical = median delay · cancellations count as late
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Recorded on {sampledDays} of the last {HISTORY_DAYS} days. Delays are only sampled while the app is open, so
+                days or hours without visitors are missing.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,19 +2,37 @@
 
 import { useEffect, useState } from 'react';
 import { ServiceAlert } from '@/lib/types';
+import { formatTime, formatTimeAgo } from '@/lib/utils';
 
-export default function ServiceAlerts() {
+const SOURCE_LABELS: Record<NonNullable<ServiceAlert['sources']>[number], string> = {
+  '511': '511.org',
+  'caltrain.com': 'Caltrain.com',
+  simplifytransit: 'SimplifyTransit',
+  twitter: '@CaltrainAlerts',
+};
+
+interface ServiceAlertsProps {
+  originId?: string;
+  destinationId?: string;
+}
+
+export default function ServiceAlerts({ originId, destinationId }: ServiceAlertsProps) {
   const [alerts, setAlerts] = useState<ServiceAlert[]>([]);
+  const [resolvedAlerts, setResolvedAlerts] = useState<ServiceAlert[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
   const [loading, setLoading] = useState(true);
   const [isMockData, setIsMockData] = useState(false);
 
   useEffect(() => {
     const fetchAlerts = async () => {
       try {
-        const response = await fetch('/api/alerts');
+        // Only alerts for the selected stations (plus system-wide ones) once a route is picked
+        const stations = [originId, destinationId].filter(Boolean).join(',');
+        const response = await fetch(stations ? `/api/alerts?station=${stations}` : '/api/alerts');
         if (response.ok) {
           const data = await response.json();
           setAlerts(data.alerts || []);
+          setResolvedAlerts(data.resolvedAlerts || []);
           setIsMockData(data.isMockData || false);
         }
       } catch (error) {
@@ -29,13 +47,13 @@ export default function ServiceAlerts() {
     // Auto-refresh every 5 minutes
     const interval = setInterval(fetchAlerts, 300000);
     return () => clearInterval(interval);
-  }, []);
+  }, [originId, destinationId]);
 
   if (loading) {
     return null;
   }
 
-  if (alerts.length === 0) {
+  if (alerts.length === 0 && resolvedAlerts.length === 0) {
     return null;
   }
 
@@ -107,11 +125,50 @@ export default function ServiceAlerts() {
                 <p className={`${styles.description} text-sm`}>
                   {alert.description}
                 </p>
+                {!isMockData && (
+                  <p className={`${styles.description} text-xs opacity-75 mt-1`}>
+                    Posted {formatTimeAgo(alert.timestamp)}
+                    {alert.endsAt && ` · until ${formatTime(alert.endsAt)}`}
+                    {alert.sources && alert.sources.length > 0 && ` · via ${alert.sources.map((source) => SOURCE_LABELS[source]).join(', ')}`}
+                  </p>
+                )}
               </div>
             </div>
           </div>
         );
       })}
+
+      {resolvedAlerts.length > 0 && (
+        <div className="text-sm">
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 font-medium"
+            aria-expanded={showResolved}
+          >
+            {showResolved ? '▾' : '▸'} Recently cleared ({resolvedAlerts.length})
+          </button>
+
+          {showResolved && (
+            <ul className="mt-2 space-y-2">
+              {resolvedAlerts.map((alert) => (
+                <li
+                  key={alert.id}
+                  className="bg-gray-50 dark:bg-gray-800 border-l-4 border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2"
+                >
+                  <div className="text-gray-700 dark:text-gray-300 line-through decoration-gray-400">
+                    {alert.title}
+                  </div>
+                  {alert.resolvedAt && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Cleared {formatTimeAgo(alert.resolvedAt)}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { Station } from '@/lib/types';
+import { Station, TripTime } from '@/lib/types';
 import { stations } from '@/lib/stations';
 
 interface StationSelectorProps {
@@ -9,6 +9,8 @@ interface StationSelectorProps {
   onOriginChange: (stationId: string) => void;
   onDestinationChange: (stationId: string) => void;
   onSwap: () => void;
+  tripTime: TripTime;
+  onTripTimeChange: (tripTime: TripTime) => void;
 }
 
 export default function StationSelector({
@@ -16,7 +18,9 @@ export default function StationSelector({
   destinationId,
   onOriginChange,
   onDestinationChange,
-  onSwap
+  onSwap,
+  tripTime,
+  onTripTimeChange
 }: StationSelectorProps) {
   // Filter out South County Connector stations (served by 8XX service)
   const southCountyStations = ['tamien', 'capitol', 'blossom-hill', 'morgan-hill', 'san-martin', 'gilroy'];
@@ -104,6 +108,43 @@ export default function StationSelector({
           </select>
         </div>
 
+        {/* Trip Time */}
+        <div>
+          <label htmlFor="trip-time-mode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            When
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <select
+              id="trip-time-mode"
+              value={tripTime.mode}
+              onChange={(e) => onTripTimeChange({ ...tripTime, mode: e.target.value as TripTime['mode'] })}
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="now">Leave now</option>
+              <option value="depart">Depart at</option>
+              <option value="arrive">Arrive by</option>
+            </select>
+            {tripTime.mode !== 'now' && (
+              <>
+                <input
+                  type="date"
+                  aria-label="Travel date"
+                  value={tripTime.date}
+                  onChange={(e) => e.target.value && onTripTimeChange({ ...tripTime, date: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <input
+                  type="time"
+                  aria-label="Travel time"
+                  value={tripTime.time}
+                  onChange={(e) => e.target.value && onTripTimeChange({ ...tripTime, time: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+              </>
+            )}
+          </div>
+        </div>
+
         {/* Validation Message */}
         {originId && destinationId && originId === destinationId && (
           <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 dark:border-yellow-600 p-3">
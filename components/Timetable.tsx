@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Train } from '@/lib/types';
+import { formatTime, formatDuration } from '@/lib/utils';
+import TrainTypeBadge from '@/components/TrainTypeBadge';
+
+interface TimetableProps {
+  originId: string;
+  destinationId: string;
+  date: string; // YYYY-MM-DD (Pacific)
+}
+
+type SortKey = 'trainNumber' | 'type' | 'departureTime' | 'arrivalTime' | 'duration';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'trainNumber', label: 'Train' },
+  { key: 'type', label: 'Type' },
+  { key: 'departureTime', label: 'Departs' },
+  { key: 'arrivalTime', label: 'Arrives' },
+  { key: 'duration', label: 'Duration' }
+];
+
+function compareTrains(a: Train, b: Train, key: SortKey): number {
+  switch (key) {
+    case 'trainNumber':
+      return a.trainNumber.localeCompare(b.trainNumber, undefined, { numeric: true });
+    case 'type':
+      return (a.route?.name || a.type).localeCompare(b.route?.name || b.type);
+    case 'duration':
+      return a.duration - b.duration;
+    default:
+      return new Date(a[key]).getTime() - new Date(b[key]).getTime();
+  }
+}
+
+export default function Timetable({ originId, destinationId, date }: TimetableProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [trains, setTrains] = useState<Train[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('departureTime');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  useEffect(() => {
+    // Only fetch the full day once the timetable is opened
+    if (!expanded || !originId || !destinationId) {
+      return;
+    }
+
+    const fetchTimetable = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/timetable?origin=${originId}&destination=${destinationId}&date=${date}`
+        );
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch timetable');
+        }
+
+        const data = await response.json();
+        setTrains(data.trains || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setTrains([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimetable();
+  }, [expanded, originId, destinationId, date]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const sortedTrains = [...trains].sort((a, b) => {
+    const result = compareTrains(a, b, sortKey);
+    return sortAscending ? result : -result;
+  });
+
+  const now = Date.now();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Full Timetable</h2>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium"
+        >
+          {expanded ? 'Hide' : `Show all trains for ${date}`}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4">
+          {loading && trains.length === 0 ? (
+            <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-48 rounded-lg" />
+          ) : error ? (
+            <div className="bg-red-50 dark:bg-red-900/30 border-l-4 border-red-400 dark:border-red-600 p-4">
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          ) : trains.length === 0 ? (
+            <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 dark:border-yellow-600 p-4">
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                No trains scheduled for this route on {date}.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-600">
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={key} className="py-2 pr-4">
+                        <button
+                          onClick={() => handleSort(key)}
+                          className="font-semibold text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+                        >
+                          {label}
+                          {sortKey === key && (sortAscending ? ' ▲' : ' ▼')}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedTrains.map((train) => (
+                    <tr
+                      key={train.tripId || train.trainNumber}
+                      className={`border-b border-gray-100 dark:border-gray-700 ${
+                        new Date(train.departureTime).getTime() < now
+                          ? 'text-gray-400 dark:text-gray-500'
+                          : 'text-gray-800 dark:text-gray-100'
+                      }`}
+                    >
+                      <td className="py-2 pr-4 font-medium">{train.trainNumber}</td>
+                      <td className="py-2 pr-4">
+                        <span className="inline-block">
+                          <TrainTypeBadge train={train} />
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">{formatTime(train.departureTime)}</td>
+                      <td className="py-2 pr-4">{formatTime(train.arrivalTime)}</td>
+                      <td className="py-2 pr-4">{formatDuration(train.duration)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                {trains.length} trains · scheduled times · departed trains shown in gray
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
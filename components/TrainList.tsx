@@ -1,21 +1,71 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Train } from '@/lib/types';
-import { formatTime, formatDuration } from '@/lib/utils';
+import { DelayPrediction, Train, TrainDiff, TripTime } from '@/lib/types';
+import { formatTime, formatDuration, formatFare, getTrainKey } from '@/lib/utils';
+import { getPacificDateString } from '@/lib/pacific-time';
+import TrainStops from '@/components/TrainStops';
+import TrainTypeBadge from '@/components/TrainTypeBadge';
+import DelaySourceBadge from '@/components/DelaySourceBadge';
+import { getStationById } from '@/lib/stations';
+
+// Forecasts below this are noise - don't warn about them
+const LIKELY_LATE_MINUTES = 3;
+
+// Failed reconnects in a row before giving up on the stream and polling instead
+const MAX_STREAM_ERRORS = 3;
+
+const PREDICTION_BASIS_LABELS: Record<DelayPrediction['basis'][number], string> = {
+  history: 'past weeks',
+  upstream: 'delays on earlier trains',
+};
+
+/**
+ * Merge a streamed diff into the current train list
+ */
+function applyTrainDiff(trains: Train[], diff: TrainDiff): Train[] {
+  const removed = new Set(diff.removed);
+  const replacements = new Map(diff.changed.map((train) => [getTrainKey(train), train]));
+
+  return [
+    ...trains
+      .filter((train) => !removed.has(getTrainKey(train)))
+      .map((train) => replacements.get(getTrainKey(train)) || train),
+    ...diff.added,
+  ].sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime());
+}
 
 interface TrainListProps {
   originId: string;
   destinationId: string;
+  tripTime?: TripTime;
 }
 
-export default function TrainList({ originId, destinationId }: TrainListProps) {
+export default function TrainList({ originId, destinationId, tripTime }: TrainListProps) {
   const [trains, setTrains] = useState<Train[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isMockData, setIsMockData] = useState(false);
   const [isMockSchedule, setIsMockSchedule] = useState(false);
+  const [expandedTripId, setExpandedTripId] = useState<string | null>(null);
+
+  const mode = tripTime?.mode || 'now';
+  const title = mode === 'depart'
+    ? `Trains departing after ${tripTime!.time} on ${tripTime!.date}`
+    : mode === 'arrive'
+    ? `Trains arriving by ${tripTime!.time} on ${tripTime!.date}`
+    : 'Next Trains';
+
+  // Only planned queries need the date/time in the request
+  const timeQuery = mode === 'depart'
+    ? `&date=${tripTime!.date}&departAt=${tripTime!.time}`
+    : mode === 'arrive'
+    ? `&date=${tripTime!.date}&arriveBy=${tripTime!.time}`
+    : '';
+
+  // Service date used to look up a train's full stop list
+  const serviceDate = mode === 'now' ? getPacificDateString(new Date()) : tripTime!.date;
 
   useEffect(() => {
     if (!originId || !destinationId) {
@@ -29,7 +79,7 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
 
       try {
         const response = await fetch(
-          `/api/trains?origin=${originId}&destination=${destinationId}`
+          `/api/trains?origin=${originId}&destination=${destinationId}${timeQuery}`
         );
 
         if (!response.ok) {
@@ -49,13 +99,68 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
       }
     };
 
-    fetchTrains();
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let source: EventSource | null = null;
+    let streamErrors = 0;
+
+    const startPolling = () => {
+      fetchTrains();
+      // Auto-refresh every 60 seconds
+      interval = setInterval(fetchTrains, 60000);
+    };
 
-    // Auto-refresh every 60 seconds
-    const interval = setInterval(fetchTrains, 60000);
+    if (mode === 'now' && typeof EventSource !== 'undefined') {
+      // Live updates are pushed from one shared server-side poller
+      setLoading(true);
+      setError(null);
+      source = new EventSource(`/api/trains/stream?origin=${originId}&destination=${destinationId}`);
+
+      source.onopen = () => {
+        streamErrors = 0;
+      };
+
+      source.addEventListener('snapshot', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setTrains(data.trains || []);
+        setIsMockData(data.isMockData || false);
+        setIsMockSchedule(data.isMockSchedule || false);
+        setLastUpdated(new Date(data.updatedAt));
+        setLoading(false);
+      });
+
+      source.addEventListener('update', (event) => {
+        const diff: TrainDiff & { updatedAt: string } = JSON.parse((event as MessageEvent).data);
+        setTrains((current) => applyTrainDiff(current, diff));
+        setLastUpdated(new Date(diff.updatedAt));
+      });
+
+      source.addEventListener('heartbeat', (event) => {
+        setLastUpdated(new Date(JSON.parse((event as MessageEvent).data).updatedAt));
+      });
+
+      source.onerror = () => {
+        // EventSource reconnects on its own after a dropped connection (proxy timeout, server restart).
+        // Fall back to polling only when it gives up or keeps failing (e.g. serverless host)
+        streamErrors++;
+        if (source?.readyState !== EventSource.CLOSED && streamErrors < MAX_STREAM_ERRORS) return;
+
+        source?.close();
+        source = null;
+        if (!interval) {
+          startPolling();
+        }
+      };
+    } else {
+      startPolling();
+    }
 
-    return () => clearInterval(interval);
-  }, [originId, destinationId]);
+    return () => {
+      source?.close();
+      if (interval) {
+        clearInterval(interval);
+      }
+    };
+  }, [originId, destinationId, timeQuery, mode]);
 
   if (!originId || !destinationId) {
     return null;
@@ -64,7 +169,7 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
   if (loading && trains.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Next Trains</h2>
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{title}</h2>
         <div className="space-y-3">
           {[1, 2, 3].map((i) => (
             <div key={i} className="animate-pulse bg-gray-200 dark:bg-gray-700 h-24 rounded-lg" />
@@ -77,7 +182,7 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
   if (error) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Next Trains</h2>
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{title}</h2>
         <div className="bg-red-50 dark:bg-red-900/30 border-l-4 border-red-400 dark:border-red-600 p-4">
           <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
         </div>
@@ -88,7 +193,7 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
   if (trains.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Next Trains</h2>
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{title}</h2>
         <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 dark:border-yellow-600 p-4">
           <p className="text-sm text-yellow-700 dark:text-yellow-300">
             No trains currently scheduled for this route.
@@ -102,7 +207,7 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center gap-2">
-          <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Next Trains</h2>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">{title}</h2>
           {(isMockData || isMockSchedule) && (
             <span className="text-xs bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 px-2 py-1 rounded font-semibold">
               DEMO MODE
@@ -155,27 +260,80 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
                   >
                     {formatTime(train.departureTime)}
                   </span>
-                  {index === 0 && (
+                  {index === 0 && mode === 'now' && (
                     <span className="bg-blue-500 dark:bg-blue-600 text-white text-xs px-2 py-1 rounded font-semibold">
                       NEXT
                     </span>
                   )}
+                  {train.isAdded && (
+                    <span className="bg-green-600 dark:bg-green-700 text-white text-xs px-2 py-1 rounded font-semibold">
+                      EXTRA TRAIN
+                    </span>
+                  )}
                 </div>
 
-                <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm text-gray-600 dark:text-gray-300">
                   <div>
                     <span className="font-medium">Arrives:</span>{' '}
                     {formatTime(train.arrivalTime)}
+                    {/* Delay can grow or shrink between the rider's stops */}
+                    {train.arrivalDelay !== undefined && train.arrivalDelay !== train.delay && train.status !== 'cancelled' && (
+                      <span className={train.arrivalDelay > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-green-600 dark:text-green-400'}>
+                        {' '}({train.arrivalDelay === 0 ? 'on time' : `${train.arrivalDelay > 0 ? '+' : ''}${train.arrivalDelay} min`})
+                      </span>
+                    )}
                   </div>
                   <div>
                     <span className="font-medium">Duration:</span>{' '}
                     {formatDuration(train.duration)}
                   </div>
+                  {train.fare !== undefined && (
+                    <div>
+                      <span className="font-medium">Fare:</span>{' '}
+                      {formatFare(train.fare)}
+                    </div>
+                  )}
                 </div>
 
+                {/* Transfer itinerary legs */}
+                {train.legs && train.legs.length > 1 && (
+                  <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                    {train.legs.map((leg, legIndex) => (
+                      <div key={`${leg.tripId}-${legIndex}`}>
+                        {legIndex > 0 && (
+                          <div className="text-purple-700 dark:text-purple-300 font-semibold mb-1">
+                            ⇄ Transfer at {getStationById(leg.fromStationId)?.name || leg.fromStationId}
+                            {leg.waitMinutes !== undefined && ` · ${leg.waitMinutes} min wait`}
+                          </div>
+                        )}
+                        <div>
+                          <span className="font-medium">Train {leg.trainNumber}</span>{' '}
+                          ({leg.route?.name || leg.type}): {formatTime(leg.departureTime)} {getStationById(leg.fromStationId)?.name || leg.fromStationId}
+                          {' → '}
+                          {formatTime(leg.arrivalTime)} {getStationById(leg.toStationId)?.name || leg.toStationId}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Stops the real-time feed says this train won't make */}
+                {train.status !== 'cancelled' && (train.skipsOrigin || train.skipsDestination) && (
+                  <div className="mt-2 inline-flex items-center gap-1 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-xs font-semibold px-2 py-1 rounded">
+                    <span>⛔</span>
+                    <span>
+                      Skips{' '}
+                      {[train.skipsOrigin && originId, train.skipsDestination && destinationId]
+                        .filter((id): id is string => !!id)
+                        .map((id) => getStationById(id)?.name || id)
+                        .join(' and ')}
+                    </span>
+                  </div>
+                )}
+
                 {/* Delay status indicator */}
                 {train.status && train.status !== 'on-time' && (
-                  <div className="mt-2">
+                  <div className="mt-2 flex items-center gap-2">
                     {train.status === 'cancelled' ? (
                       <div className="inline-flex items-center gap-1 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-xs font-semibold px-2 py-1 rounded">
                         <span>❌</span>
@@ -192,37 +350,65 @@ export default function TrainList({ originId, destinationId }: TrainListProps) {
                         <span>Early {Math.abs(train.delay)} min</span>
                       </div>
                     ) : null}
+                    <DelaySourceBadge train={train} />
                   </div>
                 )}
 
                 {train.status === 'on-time' && (
-                  <div className="mt-2">
+                  <div className="mt-2 flex items-center gap-2">
                     <div className="inline-flex items-center gap-1 bg-green-50 dark:bg-green-900/40 text-green-600 dark:text-green-300 text-xs font-semibold px-2 py-1 rounded">
                       <span>✓</span>
                       <span>On Time</span>
                     </div>
+                    <DelaySourceBadge train={train} />
+                  </div>
+                )}
+
+                {/* Forecast only - dashed so it can't be mistaken for live status */}
+                {train.predictedDelay && train.predictedDelay.expectedDelay >= LIKELY_LATE_MINUTES && (
+                  <div className="mt-2">
+                    <div
+                      className="inline-flex items-center gap-1 border border-dashed border-amber-400 dark:border-amber-600 text-amber-700 dark:text-amber-300 text-xs font-medium px-2 py-1 rounded"
+                      title={`Forecast from ${train.predictedDelay.basis.map((b) => PREDICTION_BASIS_LABELS[b]).join(', ')} · ${train.predictedDelay.confidence} confidence`}
+                    >
+                      <span>⏳</span>
+                      <span>
+                        Likely late ~{train.predictedDelay.expectedDelay} min
+                        {train.predictedDelay.high > train.predictedDelay.low &&
+                          ` (${train.predictedDelay.low}–${train.predictedDelay.high})`}
+                      </span>
+                      <span className="text-amber-600/80 dark:text-amber-400/80">· forecast</span>
+                    </div>
                   </div>
                 )}
               </div>
 
               <div className="text-right">
-                <div
-                  className={`text-xs font-semibold px-2 py-1 rounded text-center ${
-                    train.type === 'Express'
-                      ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
-                      : train.type === 'Limited'
-                      ? 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-700 dark:text-yellow-300'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                  }`}
-                >
-                  {train.type}
-                </div>
+                <TrainTypeBadge train={train} />
                 <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   Train {train.trainNumber}
                 </div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">{train.direction}</div>
+                {train.tripId && !train.legs && (
+                  <button
+                    onClick={() => setExpandedTripId(expandedTripId === train.tripId ? null : train.tripId!)}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium mt-1"
+                    aria-expanded={expandedTripId === train.tripId}
+                  >
+                    {expandedTripId === train.tripId ? 'Hide stops' : 'Show stops'}
+                  </button>
+                )}
               </div>
             </div>
+
+            {train.tripId && !train.legs && expandedTripId === train.tripId && (
+              <TrainStops
+                tripId={train.tripId}
+                date={serviceDate}
+                originId={originId}
+                destinationId={destinationId}
+              />
+            )}
           </div>
         ))}
       </div>
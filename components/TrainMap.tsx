@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrainPosition } from '@/lib/types';
+import { stations } from '@/lib/stations';
+import { LatLng } from '@/lib/gtfs-shapes';
+
+interface TrainMapProps {
+  originId: string;
+  destinationId: string;
+}
+
+const MAP_WIDTH = 400;
+const MAP_PADDING = 20;
+const REFRESH_INTERVAL_MS = 15000;
+
+/**
+ * Equirectangular projection fitted to the corridor bounds
+ * Longitude is scaled by cos(latitude) so the corridor keeps its real proportions
+ */
+function createProjection(points: LatLng[]) {
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  const lngScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.001);
+  const spanY = Math.max(maxLat - minLat, 0.001);
+  const scale = (MAP_WIDTH - MAP_PADDING * 2) / spanX;
+  const height = spanY * scale + MAP_PADDING * 2;
+
+  return {
+    height,
+    project: (p: LatLng) => ({
+      x: MAP_PADDING + (p.lng - minLng) * lngScale * scale,
+      y: MAP_PADDING + (maxLat - p.lat) * scale,
+    }),
+  };
+}
+
+export default function TrainMap({ originId, destinationId }: TrainMapProps) {
+  const [corridor, setCorridor] = useState<LatLng[]>([]);
+  const [vehicles, setVehicles] = useState<TrainPosition[]>([]);
+  const [isLive, setIsLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Track geometry only changes with the route
+  useEffect(() => {
+    const fetchShape = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/shapes?origin=${originId}&destination=${destinationId}`);
+        if (!response.ok) {
+          throw new Error('Failed to load route map');
+        }
+        const data = await response.json();
+        setCorridor(data.corridor || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setCorridor([]);
+      }
+    };
+
+    fetchShape();
+  }, [originId, destinationId]);
+
+  useEffect(() => {
+    const fetchVehicles = async () => {
+      try {
+        const response = await fetch(`/api/vehicles?origin=${originId}&destination=${destinationId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch vehicle positions');
+        }
+        const data = await response.json();
+        setVehicles(data.vehicles || []);
+        setIsLive(data.isLive || false);
+      } catch (err) {
+        console.error('Error fetching vehicle positions:', err);
+        setVehicles([]);
+        setIsLive(false);
+      }
+    };
+
+    fetchVehicles();
+
+    const interval = setInterval(fetchVehicles, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [originId, destinationId]);
+
+  if (error) {
+    return null; // Map is supplementary - hide it if the feed has no shapes
+  }
+
+  if (corridor.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Train Map</h2>
+        <div className="animate-pulse bg-gray-200 dark:bg-gray-700 h-64 rounded-lg" />
+      </div>
+    );
+  }
+
+  const { height, project } = createProjection(corridor);
+  const path = corridor
+    .map((p, i) => {
+      const { x, y } = project(p);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  // Only stations the corridor passes near
+  const lats = corridor.map((p) => p.lat);
+  const minLat = Math.min(...lats) - 0.005;
+  const maxLat = Math.max(...lats) + 0.005;
+  const visibleStations = stations.filter(
+    (s) => s.coordinates.lat >= minLat && s.coordinates.lat <= maxLat
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100">Train Map</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {isLive ? `${vehicles.length} train${vehicles.length === 1 ? '' : 's'} on this route` : 'Live positions unavailable'}
+        </p>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${height}`}
+        className="w-full max-h-[32rem]"
+        role="img"
+        aria-label="Map of the Caltrain corridor with live train positions"
+      >
+        <path d={path} fill="none" strokeWidth={3} strokeLinejoin="round" className="stroke-gray-400 dark:stroke-gray-500" />
+
+        {visibleStations.map((station) => {
+          const { x, y } = project(station.coordinates);
+          const isEndpoint = station.id === originId || station.id === destinationId;
+          return (
+            <g key={station.id}>
+              <circle
+                cx={x}
+                cy={y}
+                r={isEndpoint ? 6 : 3}
+                className={isEndpoint ? 'fill-blue-500' : 'fill-white dark:fill-gray-800 stroke-gray-500'}
+                strokeWidth={isEndpoint ? 0 : 1.5}
+              >
+                <title>{station.name}</title>
+              </circle>
+              {isEndpoint && (
+                <text x={x + 10} y={y + 4} className="fill-gray-800 dark:fill-gray-100 text-[11px] font-semibold">
+                  {station.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {vehicles.map((vehicle) => {
+          const { x, y } = project(vehicle.coordinates);
+          return (
+            <g
+              key={vehicle.tripId}
+              // Glide between position updates instead of jumping
+              style={{ transform: `translate(${x}px, ${y}px)`, transition: `transform ${REFRESH_INTERVAL_MS}ms linear` }}
+            >
+              <circle r={7} className="fill-red-600 stroke-white" strokeWidth={2}>
+                <title>
+                  Train {vehicle.trainNumber}
+                  {vehicle.status === 'STOPPED_AT' ? ' (stopped)' : ''}
+                </title>
+              </circle>
+              <text x={-10} y={4} textAnchor="end" className="fill-red-700 dark:fill-red-300 text-[10px] font-bold">
+                {vehicle.trainNumber}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
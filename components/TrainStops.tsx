@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrainDetail } from '@/lib/types';
+import { formatTime } from '@/lib/utils';
+import { getStationById } from '@/lib/stations';
+
+interface TrainStopsProps {
+  tripId: string;
+  date: string; // Service date as YYYY-MM-DD (Pacific)
+  originId: string;
+  destinationId: string;
+}
+
+export default function TrainStops({ tripId, date, originId, destinationId }: TrainStopsProps) {
+  const [detail, setDetail] = useState<TrainDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDetail = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/trains/${encodeURIComponent(tripId)}?date=${date}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch stop list');
+        }
+
+        const data = await response.json();
+        setDetail(data.train);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setDetail(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDetail();
+  }, [tripId, date]);
+
+  if (loading) {
+    return <div className="mt-3 animate-pulse bg-gray-200 dark:bg-gray-700 h-32 rounded-lg" />;
+  }
+
+  if (error || !detail) {
+    return (
+      <p className="mt-3 text-sm text-red-700 dark:text-red-300">{error || 'Stop list unavailable'}</p>
+    );
+  }
+
+  return (
+    <div className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Train {detail.trainNumber} to {detail.headsign} · {detail.stops.length} stops
+        {detail.hasRealtime && ' · live estimates'}
+      </p>
+
+      <ol className="space-y-1 text-sm">
+        {detail.stops.map((stop) => {
+          const isRouteStop = stop.stationId === originId || stop.stationId === destinationId;
+          const scheduled = stop.stationId === destinationId ? stop.scheduledArrival : stop.scheduledDeparture;
+          const estimate = stop.stationId === destinationId ? stop.arrival : stop.departure;
+          const isLate = estimate && new Date(estimate).getTime() - new Date(scheduled).getTime() >= 60000;
+
+          return (
+            <li
+              key={`${stop.stopId}-${stop.stopSequence}`}
+              className={`flex justify-between gap-2 ${
+                isRouteStop ? 'font-semibold text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span className={stop.skipped ? 'line-through text-gray-400 dark:text-gray-500' : ''}>
+                {stop.name}
+                {stop.platformCode && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400"> · Platform {stop.platformCode}</span>
+                )}
+              </span>
+              <span className="text-right whitespace-nowrap">
+                {stop.skipped ? (
+                  <span className="text-xs font-semibold text-red-600 dark:text-red-400">SKIPPED</span>
+                ) : isLate ? (
+                  <>
+                    <span className="line-through text-gray-400 dark:text-gray-500 mr-1">{formatTime(scheduled)}</span>
+                    <span className="text-orange-600 dark:text-orange-400">{formatTime(estimate!)}</span>
+                  </>
+                ) : (
+                  formatTime(scheduled)
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {detail.passedStations.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Does not stop at: {detail.passedStations.map((id) => getStationById(id)?.name || id).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
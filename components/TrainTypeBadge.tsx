@@ -0,0 +1,39 @@
+'use client';
+
+import { Train } from '@/lib/types';
+
+interface TrainTypeBadgeProps {
+  train: Pick<Train, 'type' | 'route'>;
+}
+
+export default function TrainTypeBadge({ train }: TrainTypeBadgeProps) {
+  const label = train.route?.name || train.type;
+
+  // Use the feed's route colors when available so badges match Caltrain's own maps
+  if (train.route?.color) {
+    return (
+      <div
+        className="text-xs font-semibold px-2 py-1 rounded text-center"
+        style={{ backgroundColor: train.route.color, color: train.route.textColor || '#000000' }}
+      >
+        {label}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`text-xs font-semibold px-2 py-1 rounded text-center ${
+        train.type === 'Express'
+          ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
+          : train.type === 'Limited'
+          ? 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-700 dark:text-yellow-300'
+          : train.type === 'Special'
+          ? 'bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300'
+          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+      }`}
+    >
+      {label}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseAlertText, ParsedAlertText } from '../alert-grammar';
+
+interface AlertFixture {
+  text: string;
+  source: 'caltrain.com' | '511' | 'simplifytransit' | 'constructed';
+  expected: ParsedAlertText;
+}
+
+// Captured alert text, plus constructed wording for rules the captured alerts don't exercise yet
+const corpus: AlertFixture[] = JSON.parse(
+  readFileSync(path.join(__dirname, 'fixtures', 'alerts', 'corpus.json'), 'utf8')
+);
+
+describe('Alert Grammar', () => {
+  it('should parse every alert in the corpus to its expected structure', () => {
+    for (const alert of corpus) {
+      expect({ text: alert.text, parsed: parseAlertText(alert.text) })
+        .toEqual({ text: alert.text, parsed: alert.expected });
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  findTrainNumbers,
+  normalize511Alerts,
+  normalizeCaltrainAlerts,
+  normalizeTwitterDelays,
+  mergeAlerts,
+  filterMergedAlerts,
+  resetAlertMerger,
+} from '../alert-merger';
+import { Alert } from '../gtfs-realtime';
+import { updateAlertRegistry, getActiveAlertRecords, getResolvedAlertRecords, resetAlertRegistry } from '../alert-registry';
+
+const observedAt = new Date(Date.UTC(2025, 9, 14, 15, 0));
+
+const feedAlert = (id: string, overrides: Partial<Alert> = {}): Alert => ({
+  id,
+  severity: 'warning',
+  headerText: `Alert ${id}`,
+  descriptionText: '',
+  activePeriods: [],
+  informedEntities: [],
+  ...overrides,
+});
+
+describe('Alert Merger', () => {
+  it('should find train numbers in alert text', () => {
+    expect(findTrainNumbers('Trains 101, 103 and 105 are delayed')).toEqual(['101', '103', '105']);
+    expect(findTrainNumbers('SB #412 held at Millbrae')).toEqual(['412']);
+    expect(findTrainNumbers('Elevator at Millbrae is out of service')).toEqual([]);
+  });
+
+  it('should merge reports of the same train across sources with the 511 wording', () => {
+    resetAlertMerger();
+    const merged = mergeAlerts([
+      ...normalizeTwitterDelays([{
+        trainNumber: '113',
+        delayMinutes: 35,
+        timestamp: new Date(observedAt.getTime() - 5 * 60 * 1000),
+        tweetText: 'Train 113 is running about 35 minutes late',
+      }], observedAt),
+      ...normalizeCaltrainAlerts([{
+        trainNumber: '113',
+        delayMinutes: 30,
+        alertText: 'Train 113 delayed 30 minutes',
+        type: 'delay',
+        severity: 'warning',
+      }], observedAt),
+      ...normalize511Alerts([feedAlert('alert-113', {
+        headerText: 'Train 113 is delayed due to a mechanical issue',
+        informedEntities: [{ tripId: '113' }],
+      })], observedAt),
+      ...normalizeCaltrainAlerts([{
+        trainNumber: '115',
+        alertText: 'Train 115 delayed 10 minutes',
+        type: 'delay',
+        severity: 'warning',
+      }], observedAt),
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].id).toBe('alert-113');
+    expect(merged[0].headerText).toBe('Train 113 is delayed due to a mechanical issue');
+    expect(merged[0].sources).toEqual(['511', 'caltrain.com', 'twitter']);
+    expect(merged[0].severity).toBe('critical');
+    expect(merged[1].trainNumbers).toEqual(['115']);
+  });
+
+  it('should merge station alerts only when station and wording agree', () => {
+    resetAlertMerger();
+    const merged = mergeAlerts([
+      ...normalize511Alerts(
+        [feedAlert('alert-elevator', {
+          headerText: 'Elevator out of service',
+          informedEntities: [{ stopId: '70061' }],
+        })],
+        observedAt,
+        (stopId) => (stopId === '70061' ? 'mb' : undefined)
+      ),
+      ...normalizeCaltrainAlerts([
+        { alertText: 'Millbrae elevator is out of service', type: 'elevator', severity: 'info' },
+        { alertText: 'Palo Alto elevator is out of service', type: 'elevator', severity: 'info' },
+      ], observedAt),
+    ]);
+
+    expect(merged.map((alert) => [alert.headerText, alert.sources])).toEqual([
+      ['Elevator out of service', ['511', 'caltrain.com']],
+      ['Palo Alto elevator is out of service', ['caltrain.com']],
+    ]);
+  });
+
+  it('should filter merged alerts by station or train, keeping system-wide ones', () => {
+    const merged = mergeAlerts(normalizeCaltrainAlerts([
+      { alertText: 'Train 113 delayed 30 minutes', type: 'delay', severity: 'warning' },
+      { alertText: 'Palo Alto elevator is out of service', type: 'elevator', severity: 'info' },
+      { alertText: 'Expect crowded trains after the Giants game', type: 'general', severity: 'info' },
+    ], observedAt));
+
+    const forTrain = filterMergedAlerts(merged, { tripIds: ['113'] });
+    expect(forTrain.map((alert) => alert.headerText)).toEqual([
+      'Train 113 delayed 30 minutes',
+      'Expect crowded trains after the Giants game',
+    ]);
+
+    const forStation = filterMergedAlerts(merged, { stationIds: ['pa'] });
+    expect(forStation.map((alert) => alert.headerText)).toEqual([
+      'Palo Alto elevator is out of service',
+      'Expect crowded trains after the Giants game',
+    ]);
+  });
+
+  it('should match trips and stops named only by 511 informed entities', () => {
+    resetAlertMerger();
+    const merged = mergeAlerts(normalize511Alerts([
+      feedAlert('alert-trip', { headerText: 'Mechanical issue', informedEntities: [{ tripId: 'T113-WKDY' }] }),
+      feedAlert('alert-stop', { headerText: 'Platform closure', informedEntities: [{ stopId: '70211' }] }),
+      feedAlert('alert-route', { headerText: 'Weekend schedule', informedEntities: [{ routeId: 'Local' }] }),
+    ], observedAt));
+
+    expect(filterMergedAlerts(merged, { tripIds: ['T113-WKDY'] }).map((alert) => alert.id))
+      .toEqual(['alert-trip', 'alert-route']);
+    expect(filterMergedAlerts(merged, { stationIds: ['mv'], stopIds: new Set(['70211', '70212']) }).map((alert) => alert.id))
+      .toEqual(['alert-stop', 'alert-route']);
+    expect(filterMergedAlerts(merged, { stationIds: ['pa'], stopIds: new Set(['70171', '70172']) }).map((alert) => alert.id))
+      .toEqual(['alert-route']);
+  });
+
+  it('should keep a cluster id when a 511 report joins a scraped alert', () => {
+    resetAlertMerger();
+    resetAlertRegistry();
+    const later = new Date(observedAt.getTime() + 2 * 60 * 1000);
+    const scraped = (at: Date) => normalizeCaltrainAlerts([{
+      trainNumber: '113',
+      alertText: 'Train 113 delayed 30 minutes',
+      type: 'delay',
+      severity: 'warning',
+    }], at);
+
+    const first = mergeAlerts(scraped(observedAt));
+    updateAlertRegistry(first, observedAt);
+
+    const second = mergeAlerts([
+      ...normalize511Alerts([feedAlert('alert-113', {
+        headerText: 'Train 113 is delayed due to a mechanical issue',
+        informedEntities: [{ tripId: '113' }],
+      })], later),
+      ...scraped(later),
+    ]);
+    updateAlertRegistry(second, later);
+
+    expect(second.map((alert) => [alert.id, alert.sources])).toEqual([[first[0].id, ['511', 'caltrain.com']]]);
+    expect(getResolvedAlertRecords()).toEqual([]);
+    expect(getActiveAlertRecords().map((record) => [record.alert.headerText, record.firstSeen])).toEqual([
+      ['Train 113 is delayed due to a mechanical issue', observedAt.toISOString()],
+    ]);
+  });
+});
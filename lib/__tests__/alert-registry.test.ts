@@ -0,0 +1,59 @@
+import {
+  updateAlertRegistry,
+  getActiveAlertRecords,
+  getResolvedAlertRecords,
+  resetAlertRegistry,
+  RESOLVED_ALERT_RETENTION_MS,
+} from '../alert-registry';
+import { Alert } from '../gtfs-realtime';
+
+const alert = (id: string, overrides: Partial<Alert> = {}): Alert => ({
+  id,
+  severity: 'warning',
+  headerText: `Alert ${id}`,
+  descriptionText: '',
+  activePeriods: [],
+  informedEntities: [],
+  ...overrides,
+});
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 9, 14, 15, minutes));
+
+describe('Alert Registry', () => {
+  it('should keep the first-seen time and advance last-seen across polls', () => {
+    resetAlertRegistry();
+    updateAlertRegistry([alert('a')], at(0));
+    updateAlertRegistry([alert('a'), alert('b')], at(5));
+
+    const [b, a] = getActiveAlertRecords();
+    expect(a.firstSeen).toBe(at(0).toISOString());
+    expect(a.lastSeen).toBe(at(5).toISOString());
+    expect(b.firstSeen).toBe(at(5).toISOString());
+  });
+
+  it('should resolve alerts that leave the feed or whose active period ended', () => {
+    resetAlertRegistry();
+    const endedPeriod = [{ start: 0, end: Math.floor(at(3).getTime() / 1000) }];
+    updateAlertRegistry([alert('a'), alert('b', { activePeriods: endedPeriod })], at(0));
+    updateAlertRegistry([alert('b', { activePeriods: endedPeriod })], at(5));
+
+    expect(getActiveAlertRecords()).toEqual([]);
+    expect(getResolvedAlertRecords().map((r) => [r.alert.id, r.resolvedAt])).toEqual([
+      ['a', at(5).toISOString()],
+      ['b', at(5).toISOString()],
+    ]);
+  });
+
+  it('should reopen re-posted alerts and forget old resolved ones', () => {
+    resetAlertRegistry();
+    updateAlertRegistry([alert('a'), alert('b')], at(0));
+    updateAlertRegistry([], at(5));
+    updateAlertRegistry([alert('a')], at(10));
+
+    expect(getActiveAlertRecords().map((r) => r.alert.id)).toEqual(['a']);
+    expect(getActiveAlertRecords()[0].firstSeen).toBe(at(0).toISOString());
+
+    updateAlertRegistry([alert('a')], new Date(at(5).getTime() + RESOLVED_ALERT_RETENTION_MS + 60000));
+    expect(getResolvedAlertRecords()).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import { parseAlertsFromText, extractTrainDelays } from '../caltrain-alerts-scraper';
+import { parseAlertsFromText, extractTrainDelays, getSystemWideDelays } from '../caltrain-alerts-scraper';
 
 describe('Caltrain Alerts Scraper', () => {
   it('should parse train delay from alert text', () => {
@@ -49,4 +49,36 @@ Train 123 is delayed by 15 minutes.
     expect(delays.get('165')?.delayMinutes).toBe(45);
     expect(delays.get('123')?.delayMinutes).toBe(15);
   });
+
+  it('should delay every listed train and locate system-wide delays', () => {
+    const alerts = parseAlertsFromText(`
+Trains 123, 125 and 127 delayed 10-15 min.
+Expect 30-60 Minute Delay For All Trains Near San Jose Diridon.
+    `);
+    const delays = extractTrainDelays(alerts);
+
+    expect([...delays.keys()]).toEqual(['123', '125', '127']);
+    expect(delays.get('127')?.delayMinutes).toBe(15);
+
+    const [trainAlert, systemWideAlert] = alerts;
+    expect(trainAlert.isSystemWide).toBe(false);
+    expect(systemWideAlert.isSystemWide).toBe(true);
+    expect(systemWideAlert.delayMinutes).toBe(60);
+    expect(systemWideAlert.affectedLocation).toBe('San Jose Diridon');
+    expect(systemWideAlert.affectedDirection).toBe('both');
+  });
+
+  it('should only treat "all trains" delays as system-wide', () => {
+    const alerts = parseAlertsFromText(`
+Expect 10-15 min delays due to single-tracking between Hillsdale and Belmont.
+Please Continue to Expect Up to 30-60 Delay for All Trains.
+    `);
+
+    const [stationAlert, systemWideAlert] = alerts;
+    expect(stationAlert.type).toBe('single-tracking');
+    expect(stationAlert.isSystemWide).toBe(false);
+    expect(systemWideAlert.isSystemWide).toBe(true);
+    expect(systemWideAlert.delayMinutes).toBe(60);
+    expect(getSystemWideDelays(alerts)).toEqual([systemWideAlert]);
+  });
 });
@@ -0,0 +1,84 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  buildReliabilityReport,
+  DelayObservation,
+  readDelayHistory,
+  recordDelayObservations,
+  summarizeDelays,
+} from '../delay-history';
+
+const observation = (overrides: Partial<DelayObservation>): DelayObservation => ({
+  serviceDate: '2025-10-14',
+  trainNumber: '409',
+  tripId: '409',
+  stationId: 'pa',
+  direction: 'Northbound',
+  scheduledTime: '07:52',
+  delay: 0,
+  observedAt: '2025-10-14T14:50:00.000Z',
+  ...overrides,
+});
+
+describe('Delay History', () => {
+  it('should summarize on-time percentage and typical delay', () => {
+    const stats = summarizeDelays([
+      observation({ serviceDate: '2025-10-13', delay: 0 }),
+      observation({ serviceDate: '2025-10-14', delay: 3 }),
+      observation({ serviceDate: '2025-10-15', delay: 12 }),
+      observation({ serviceDate: '2025-10-16', delay: 0, cancelled: true }),
+    ]);
+
+    expect(stats).toEqual({
+      observedDays: 4,
+      cancelledDays: 1,
+      onTimePercentage: 50,
+      typicalDelay: 3,
+      averageDelay: 5,
+      worstDelay: 12,
+    });
+  });
+
+  it('should report departures at the origin and arrivals at the destination', () => {
+    const report = buildReliabilityReport([
+      observation({ trainNumber: '409', stationId: 'pa', delay: 2 }),
+      observation({ trainNumber: '409', stationId: 'sf', delay: 8, arrivalDelay: 6, scheduledTime: '08:35' }),
+      // Recorded before arrival delays were kept, so it can't count as an arrival
+      observation({ trainNumber: '113', stationId: 'sf', delay: 4, scheduledTime: '08:20' }),
+      observation({ trainNumber: '113', stationId: 'pa', delay: 0, scheduledTime: '07:40' }),
+      // Southbound trains don't go from Palo Alto to San Francisco
+      observation({ trainNumber: '108', stationId: 'pa', direction: 'Southbound', scheduledTime: '07:10' }),
+    ], 'pa', 'sf');
+
+    expect(report.map((train) => train.trainNumber)).toEqual(['113', '409']);
+    expect(report[1].departure?.typicalDelay).toBe(2);
+    expect(report[1].arrival?.typicalDelay).toBe(6);
+    expect(report[0].arrival).toBeNull();
+  });
+
+  it('should keep the last observation per train, station and day', async () => {
+    process.env.DELAY_HISTORY_DIR = mkdtempSync(path.join(tmpdir(), 'delay-history-'));
+
+    await recordDelayObservations([observation({ delay: 4 })]);
+    // An unchanged poll isn't written again
+    expect(await recordDelayObservations([observation({ delay: 4 })])).toBe(0);
+    await recordDelayObservations([observation({ delay: 9, observedAt: '2025-10-14T14:55:00.000Z' })]);
+
+    const history = await readDelayHistory(3, new Date('2025-10-15T12:00:00Z'));
+    expect(history).toHaveLength(1);
+    expect(history[0].delay).toBe(9);
+  });
+
+  it('should only remember recorded values for the latest two service dates', async () => {
+    process.env.DELAY_HISTORY_DIR = mkdtempSync(path.join(tmpdir(), 'delay-history-'));
+
+    for (const serviceDate of ['2025-10-20', '2025-10-21', '2025-10-22']) {
+      await recordDelayObservations([observation({ serviceDate, delay: 4 })]);
+    }
+
+    expect(await recordDelayObservations([observation({ serviceDate: '2025-10-21', delay: 4 })])).toBe(0);
+    // Dropped from memory, so the same value is written again
+    expect(await recordDelayObservations([observation({ serviceDate: '2025-10-20', delay: 4 })])).toBe(1);
+  });
+});
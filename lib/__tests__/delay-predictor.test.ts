@@ -0,0 +1,64 @@
+import { DelayObservation } from '../delay-history';
+import { getSameWeekdayDelays, predictDelay, predictTrainDelay } from '../delay-predictor';
+import { Train } from '../types';
+
+describe('Delay Predictor', () => {
+  it('should not predict without enough evidence', () => {
+    expect(predictDelay({ history: [] })).toBeNull();
+    expect(predictDelay({ history: [10, 12] })).toBeNull();
+    // Too far behind the delayed train to feel it
+    expect(predictDelay({ history: [], upstream: { delay: 10, headwayMinutes: 120 } })).toBeNull();
+  });
+
+  it('should use the median and spread of history', () => {
+    const prediction = predictDelay({ history: [0, 2, 3, 4, 20] });
+
+    expect(prediction).toEqual({ expectedDelay: 3, low: 0, high: 20, confidence: 'low', basis: ['history'] });
+  });
+
+  it('should carry an upstream delay over to the train behind it', () => {
+    const train = {
+      trainNumber: '115',
+      direction: 'Northbound',
+      departureTime: '2025-10-14T15:28:00.000Z',
+    } as Train;
+
+    const prediction = predictTrainDelay(train, {
+      originStationId: 'diridon',
+      serviceDate: '2025-10-14',
+      history: [],
+      lineDelays: [
+        { departureTime: '2025-10-14T14:43:00.000Z', delay: 20 },
+        { departureTime: '2025-10-14T15:13:00.000Z', delay: 12 },
+        // Leaves after this train - not upstream
+        { departureTime: '2025-10-14T15:50:00.000Z', delay: 40 },
+      ],
+    });
+
+    // 15 minutes behind a train running 12 late
+    expect(prediction?.expectedDelay).toBe(10);
+    expect(prediction?.basis).toEqual(['upstream']);
+  });
+
+  it('should only use history from the same weekday', () => {
+    const observation = (serviceDate: string, delay: number): DelayObservation => ({
+      serviceDate,
+      trainNumber: '409',
+      tripId: '409',
+      stationId: 'pa',
+      direction: 'Northbound',
+      scheduledTime: '07:52',
+      delay,
+      observedAt: `${serviceDate}T15:00:00.000Z`,
+    });
+
+    const delays = getSameWeekdayDelays([
+      observation('2025-10-07', 4), // Tuesday
+      observation('2025-09-30', 6), // Tuesday
+      observation('2025-10-08', 15), // Wednesday
+      observation('2025-10-14', 9), // Today - not history yet
+    ], '409', 'pa', '2025-10-14');
+
+    expect(delays).toEqual([4, 6]);
+  });
+});
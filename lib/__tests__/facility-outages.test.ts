@@ -0,0 +1,52 @@
+import { createReadStream } from 'fs';
+import path from 'path';
+import { parseFacilityOutage, collectFacilityOutages } from '../facility-outages';
+import { parseAlertsFromText } from '../caltrain-alerts-scraper';
+import { Alert } from '../gtfs-realtime';
+import { readGTFSTable } from '../gtfs-csv';
+import { buildStationIndex } from '../gtfs-stations';
+
+describe('Facility Outages', () => {
+  it('should parse station, platform, facility and status from notices', () => {
+    expect(parseFacilityOutage('Elevator: Bayshore Northbound is out of service', 'caltrain.com')).toEqual({
+      stationId: 'bayshore',
+      facility: 'elevator',
+      direction: 'northbound',
+      status: 'out-of-service',
+      text: 'Elevator: Bayshore Northbound is out of service',
+      source: 'caltrain.com',
+    });
+
+    const restored = parseFacilityOutage('The SB escalator at Millbrae is back in service', 'caltrain.com');
+    expect([restored?.stationId, restored?.facility, restored?.direction, restored?.status])
+      .toEqual(['mb', 'escalator', 'southbound', 'restored']);
+
+    expect(parseFacilityOutage('Elevator maintenance scheduled this weekend', 'caltrain.com')).toBeNull();
+    expect(parseFacilityOutage('Train 113 delayed 15 minutes', 'caltrain.com')).toBeNull();
+  });
+
+  it('should merge 511 and Caltrain.com notices into one record per facility', async () => {
+    const stops = await readGTFSTable(createReadStream(path.join(process.cwd(), 'data', 'gtfs', 'stops.txt')), 'stops');
+    const stationIndex = buildStationIndex(stops);
+
+    const feedAlert: Alert = {
+      id: 'alert-elevator',
+      severity: 'info',
+      headerText: 'Elevator out of service',
+      descriptionText: 'Use the ramp to reach the northbound platform.',
+      activePeriods: [],
+      // San Bruno northbound platform
+      informedEntities: [{ stopId: '70051' }],
+    };
+    const caltrainAlerts = parseAlertsFromText(
+      'Elevator: San Bruno Northbound is out of service.\nElevator: Palo Alto Southbound is out of service.'
+    );
+
+    const outages = collectFacilityOutages([feedAlert], caltrainAlerts, (stopId) => stationIndex.byStopId.get(stopId));
+
+    expect(outages.map((outage) => [outage.stationId, outage.direction, outage.source])).toEqual([
+      ['sb', 'northbound', '511'],
+      ['pa', 'southbound', 'caltrain.com'],
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+
+
+2.0ʹ
+alert-elevator*
+Ԯ*
+CT*70211*
+CT*702120	8R0
+.
+(Elevator out of service at Mountain ViewenZ6
+4
+.Use the ramp at the north end of the platform.en
+	alert-113*
+ƹ*
+CT"
+11308B'
+%
+https://www.caltrain.com/alertsenR
+
+Train 113 cancelledenZ;
+9
+3Train 113 is cancelled due to a mechanical problem.en
+alert-weekend*z
+*
+CTLocal Weekend8R
+
+Weekend track workenZ5
+3
+-Buses replace trains between Millbrae and SF.enp
\ No newline at end of file
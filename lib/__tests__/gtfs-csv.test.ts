@@ -0,0 +1,83 @@
+import { createReadStream } from 'fs';
+import path from 'path';
+import { readGTFSTable, streamGTFSTable } from '../gtfs-csv';
+
+const fixture = (file: string) =>
+  createReadStream(path.join(__dirname, 'fixtures', 'gtfs', file));
+
+describe('GTFS CSV Reader', () => {
+  it('should keep commas and escaped quotes inside quoted fields', async () => {
+    const stops = await readGTFSTable(fixture('stops.txt'), 'stops');
+
+    expect(stops.length).toBe(3);
+    expect(stops[0].stop_id).toBe('70011');
+    expect(stops[0].stop_name).toBe('San Francisco, 4th & King Caltrain Northbound');
+    expect(stops[0].stop_lat).toBe('37.77639');
+    expect(stops[0].zone_id).toBe('2275');
+    expect(stops[0].parent_station).toBe('san_francisco');
+  });
+
+  it('should strip the BOM from the first header', async () => {
+    const stops = await readGTFSTable(fixture('stops.txt'), 'stops');
+    expect(stops.every((s) => s.stop_id !== undefined && s.stop_id !== '')).toBe(true);
+  });
+
+  it('should handle CRLF line endings and quoted line breaks', async () => {
+    const stops = await readGTFSTable(fixture('stops.txt'), 'stops');
+
+    // The quoted multi-line stop_desc must not split the parent station row
+    expect(stops[1].stop_id).toBe('san_francisco');
+    expect(stops[1].location_type).toBe('1');
+    expect(stops[2].stop_id).toBe('70012');
+    expect(stops[2].parent_station).toBe('san_francisco');
+  });
+
+  it('should default missing optional columns to empty strings', async () => {
+    const stops = await readGTFSTable(fixture('stops.txt'), 'stops');
+    expect(stops[0].platform_code).toBe('');
+    expect(stops[0].wheelchair_boarding).toBe('');
+  });
+
+  it('should parse quoted headsigns and ids in trips', async () => {
+    const trips = await readGTFSTable(fixture('trips.txt'), 'trips');
+
+    expect(trips.length).toBe(3);
+    expect(trips[0].trip_headsign).toBe('San Jose, Diridon');
+    expect(trips[0].direction_id).toBe('1');
+    expect(trips[1].trip_headsign).toBe('San Francisco (4th, King)');
+    expect(trips[2].trip_id).toBe('50,1');
+    expect(trips[2].trip_headsign).toBe('Say "Express"');
+  });
+
+  it('should trim header whitespace and convert stop_sequence to a number', async () => {
+    const stopTimes = await readGTFSTable(fixture('stop_times.txt'), 'stopTimes');
+
+    expect(stopTimes.length).toBe(2);
+    expect(stopTimes[0].arrival_time).toBe('07:00:00');
+    expect(stopTimes[1].stop_sequence).toBe(10);
+    expect(stopTimes[1].departure_time).toBe('25:10:00');
+  });
+
+  it('should read from an in-memory string', async () => {
+    const rows = await readGTFSTable('zone_id,zone_name\r\n2275,"Zone 1-SF to San Bruno"\r\n', 'fareZones');
+    expect(rows).toEqual([{ zone_id: '2275', zone_name: 'Zone 1-SF to San Bruno' }]);
+  });
+
+  it('should stream rows one at a time', async () => {
+    const ids: string[] = [];
+    for await (const trip of streamGTFSTable(fixture('trips.txt'), 'trips')) {
+      ids.push(trip.trip_id);
+    }
+    expect(ids).toEqual(['401', '402', '50,1']);
+  });
+
+  it('should reject a file missing required columns', async () => {
+    let message = '';
+    try {
+      await readGTFSTable(fixture('calendar_missing_columns.txt'), 'calendar');
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    expect(message).toContain('calendar.txt is missing required columns');
+  });
+});
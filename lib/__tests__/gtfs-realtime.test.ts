@@ -0,0 +1,174 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  estimateStopDelays,
+  filterAlerts,
+  getStopDelay,
+  getTripDelay,
+  isAlertActive,
+  parseServiceAlerts,
+  parseTripUpdates,
+  parseVehiclePositions,
+  ScheduledStopTime,
+  StopTimeUpdate,
+  TripUpdate,
+} from '../gtfs-realtime';
+
+const fixture = (file: string) =>
+  new Uint8Array(readFileSync(path.join(__dirname, 'fixtures', 'gtfs-rt', file)));
+
+describe('GTFS-Realtime Vehicle Positions', () => {
+  it('should decode every vehicle with a position', () => {
+    const vehicles = parseVehiclePositions(fixture('vehicle-positions.pb'));
+    expect(vehicles.map((v) => v.tripId)).toEqual(['409', '113', '108']);
+  });
+
+  it('should read position, bearing and speed', () => {
+    const [train409] = parseVehiclePositions(fixture('vehicle-positions.pb'));
+
+    expect(train409.vehicleId).toBe('916');
+    expect(train409.routeId).toBe('77121');
+    expect(train409.directionId).toBe(0);
+    expect(train409.latitude).toBeCloseTo(37.4068, 4);
+    expect(train409.longitude).toBeCloseTo(-122.1075, 4);
+    expect(train409.bearing).toBe(315);
+    expect(train409.speed).toBeCloseTo(26.8, 1);
+    expect(train409.timestamp).toBe(1760453988);
+  });
+
+  it('should map the stop status enum', () => {
+    const vehicles = parseVehiclePositions(fixture('vehicle-positions.pb'));
+
+    expect(vehicles[0].currentStatus).toBe('IN_TRANSIT_TO');
+    expect(vehicles[1].currentStatus).toBe('STOPPED_AT');
+    expect(vehicles[2].currentStatus).toBe('INCOMING_AT');
+    expect(vehicles[1].stopId).toBe('70241');
+    expect(vehicles[1].currentStopSequence).toBe(2);
+  });
+
+  it('should leave missing optional fields undefined', () => {
+    const vehicles = parseVehiclePositions(fixture('vehicle-positions.pb'));
+    expect(vehicles[1].bearing).toBeUndefined();
+    expect(vehicles[1].speed).toBeUndefined();
+  });
+});
+
+describe('GTFS-Realtime Trip Updates', () => {
+  it('should decode trip and stop schedule relationships', () => {
+    const updates = parseTripUpdates(fixture('trip-updates.pb'));
+
+    expect(updates.map((u) => [u.tripId, u.scheduleRelationship])).toEqual([
+      ['409', 'SCHEDULED'],
+      ['113', 'CANCELED'],
+      ['X901', 'ADDED'],
+    ]);
+    expect(updates[0].stopTimeUpdates.map((stu) => stu.scheduleRelationship)).toEqual([
+      'SKIPPED',
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('should read delays and absolute times', () => {
+    const [train409, , added] = parseTripUpdates(fixture('trip-updates.pb'));
+
+    expect(train409.stopTimeUpdates[1].departure?.delay).toBe(300);
+    expect(train409.stopTimeUpdates[1].departure?.time).toBeFalsy(); // Delay only
+    expect(train409.stopTimeUpdates[2].arrival?.time).toBe(1760453988 + 900);
+    expect(added.stopTimeUpdates[0].departure?.time).toBe(1760453988 + 600);
+  });
+
+  it('should report cancelled trips and skipped stops', () => {
+    const updates = parseTripUpdates(fixture('trip-updates.pb'));
+
+    expect(getTripDelay(updates, '113')).toEqual({ delay: 0, status: 'cancelled' });
+    expect(getStopDelay(updates, '70211', '409')?.status).toBe('cancelled');
+    // A skipped stop doesn't cancel the rest of the trip
+    expect(getTripDelay(updates, '409')).toEqual({ delay: 5, status: 'delayed' });
+  });
+});
+
+describe('GTFS-Realtime Service Alerts', () => {
+  const feedTime = new Date(1760453988 * 1000);
+
+  it('should keep cause, effect, active periods and informed entities', () => {
+    const [elevator, cancelled] = parseServiceAlerts(fixture('service-alerts.pb'));
+
+    expect(elevator.headerText).toBe('Elevator out of service at Mountain View');
+    expect(elevator.cause).toBe('MAINTENANCE');
+    expect(elevator.effect).toBe('ACCESSIBILITY_ISSUE');
+    expect(elevator.informedEntities.map((e) => e.stopId)).toEqual(['70211', '70212']);
+    expect(cancelled.severity).toBe('critical'); // NO_SERVICE
+    expect(cancelled.informedEntities[0].tripId).toBe('113');
+    expect(cancelled.activePeriods[0].end).toBe(0);
+    expect(cancelled.url).toBe('https://www.caltrain.com/alerts');
+  });
+
+  it('should filter by active period, stop and trip', () => {
+    const alerts = parseServiceAlerts(fixture('service-alerts.pb'));
+    const active = alerts.filter((alert) => isAlertActive(alert, feedTime));
+
+    expect(active.map((a) => a.id)).toEqual(['alert-elevator', 'alert-113']);
+    expect(filterAlerts(alerts, { stopIds: new Set(['70211']) }).map((a) => a.id)).toEqual(['alert-elevator', 'alert-weekend']);
+    expect(filterAlerts(alerts, { tripIds: ['113'] }).map((a) => a.id)).toEqual(['alert-113', 'alert-weekend']);
+  });
+});
+
+describe('Per-Stop Delay Estimation', () => {
+  // Five stops, ten minutes apart with no dwell
+  const schedule: ScheduledStopTime[] = [1, 2, 3, 4, 5].map((seq) => ({
+    stopId: `s${seq}`,
+    stopSequence: seq,
+    arrival: 1000 + seq * 600,
+    departure: 1000 + seq * 600,
+  }));
+
+  const tripUpdate = (stopTimeUpdates: StopTimeUpdate[]): TripUpdate => ({
+    tripId: 't1',
+    routeId: 'r1',
+    startDate: '',
+    startTime: '',
+    scheduleRelationship: 'SCHEDULED',
+    stopTimeUpdates,
+  });
+
+  const departureDelays = (update: TripUpdate) =>
+    estimateStopDelays(update, schedule).map((d) => d?.departureDelay ?? null);
+
+  it('should leave stops before the first update unestimated and propagate the last delay', () => {
+    const update = tripUpdate([{ stopId: 's3', stopSequence: 3, departure: { delay: 720, time: 0 } }]);
+    expect(departureDelays(update)).toEqual([null, null, 720, 720, 720]);
+  });
+
+  it('should interpolate between updates by scheduled time', () => {
+    const update = tripUpdate([
+      { stopId: 's1', stopSequence: 1, departure: { delay: 0, time: 0 } },
+      { stopId: 's5', stopSequence: 5, arrival: { delay: 480, time: 0 } },
+    ]);
+    expect(departureDelays(update)).toEqual([0, 120, 240, 360, 480]);
+  });
+
+  it('should derive delays from absolute times and match stops without a sequence', () => {
+    const update = tripUpdate([{ stopId: 's2', stopSequence: 0, arrival: { delay: 0, time: 1000 + 1200 + 300 } }]);
+    const estimates = estimateStopDelays(update, schedule);
+    expect(estimates[1]).toEqual({ arrivalDelay: 300, departureDelay: 300 });
+    expect(estimates[4]?.arrivalDelay).toBe(300);
+  });
+
+  it('should not estimate skipped stops', () => {
+    const update = tripUpdate([
+      { stopId: 's2', stopSequence: 2, departure: { delay: 60, time: 0 } },
+      { stopId: 's3', stopSequence: 3, scheduleRelationship: 'SKIPPED' },
+    ]);
+    expect(departureDelays(update)).toEqual([null, 60, null, 60, 60]);
+  });
+
+  it('should use the next reported stop for the trip-wide delay', () => {
+    // Delay builds further down the line - the train is on time now
+    const update = tripUpdate([
+      { stopId: 's2', stopSequence: 2, departure: { delay: 0, time: 0 } },
+      { stopId: 's5', stopSequence: 5, arrival: { delay: 720, time: 0 } },
+    ]);
+    expect(getTripDelay([update], 't1')).toEqual({ delay: 0, status: 'on-time' });
+  });
+});
@@ -0,0 +1,38 @@
+import { createReadStream } from 'fs';
+import path from 'path';
+import { classifyRoute, getScheduledTrains } from '../gtfs-static';
+import { pacificDateTime } from '../pacific-time';
+import { readGTFSTable } from '../gtfs-csv';
+
+const feedTable = (file: string) => createReadStream(path.join(process.cwd(), 'data', 'gtfs', file));
+
+describe('GTFS Static Schedule', () => {
+  it('should classify every routes.txt route, keeping weekend locals apart', async () => {
+    const routes = await readGTFSTable(feedTable('routes.txt'), 'routes');
+
+    expect(routes.map((route) => [route.route_short_name, classifyRoute(route)])).toEqual([
+      ['Local Weekday', 'Local'],
+      ['Local Weekend', 'Local Weekend'],
+      ['Limited', 'Limited'],
+      ['Express', 'Express'],
+      ['South County', 'South County'],
+    ]);
+  });
+
+  it('should find the previous service day\'s late trains for a departure after midnight', async () => {
+    // Weekend train 668 leaves Redwood City at 24:48 on Saturday's service
+    const trains = await getScheduledTrains('rw', 'pa', pacificDateTime('2025-10-19', '00:30'), [], new Map(), { transfers: false });
+
+    expect(trains[0].trainNumber).toBe('668');
+    expect(trains[0].departureTime).toBe(pacificDateTime('2025-10-19', '00:48').toISOString());
+    expect(trains.slice(1).every((train) => train.departureTime > pacificDateTime('2025-10-19', '05:00').toISOString())).toBe(true);
+  });
+
+  it('should roll a late-evening departure over into the next service day', async () => {
+    const trains = await getScheduledTrains('rw', 'pa', pacificDateTime('2025-10-18', '23:50'), [], new Map(), { transfers: false });
+
+    // Saturday's last two trains run past midnight, then Sunday's service starts
+    expect(trains.map((train) => train.trainNumber)).toEqual(['664', '668', '602', '604', '606']);
+    expect(trains[2].departureTime).toBe(pacificDateTime('2025-10-19', '08:38').toISOString());
+  });
+});
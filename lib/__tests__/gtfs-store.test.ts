@@ -0,0 +1,154 @@
+import {
+  buildGTFSStore,
+  findTripsBetweenStops,
+  getActiveServiceIds,
+  GTFSCalendar,
+  GTFSStopTime,
+  GTFSTrip,
+} from '../gtfs-store';
+
+/**
+ * Build a synthetic feed with a fixed set of trips serving stops A -> B,
+ * padded with unrelated trips on other stops to grow the feed
+ */
+function buildFeed(unrelatedTrips: number) {
+  const trips: GTFSTrip[] = [];
+  const stopTimes: GTFSStopTime[] = [];
+
+  const addTrip = (tripId: string, stopIds: string[], startHour: number) => {
+    trips.push({
+      trip_id: tripId,
+      route_id: 'r1',
+      service_id: 'weekday',
+      trip_short_name: tripId,
+      trip_headsign: 'San Francisco',
+      direction_id: '0',
+    });
+    stopIds.forEach((stopId, i) => {
+      const time = `${String(startHour).padStart(2, '0')}:${String(i * 5).padStart(2, '0')}:00`;
+      stopTimes.push({
+        trip_id: tripId,
+        arrival_time: time,
+        departure_time: time,
+        stop_id: stopId,
+        stop_sequence: i + 1,
+      });
+    });
+  };
+
+  for (let i = 0; i < 20; i++) {
+    addTrip(`direct-${i}`, ['A', 'X', 'B'], 5 + (i % 18));
+  }
+  for (let i = 0; i < unrelatedTrips; i++) {
+    addTrip(`other-${i}`, ['C', 'D', 'E', 'F'], 5 + (i % 18));
+  }
+
+  return buildGTFSStore({ trips, stopTimes, calendar: [], calendarDates: [] });
+}
+
+function calendarEntry(serviceId: string, days: string, start = '20250101', end = '20251231'): GTFSCalendar {
+  const [monday, tuesday, wednesday, thursday, friday, saturday, sunday] = days.split('');
+  return {
+    service_id: serviceId,
+    monday, tuesday, wednesday, thursday, friday, saturday, sunday,
+    start_date: start,
+    end_date: end,
+  };
+}
+
+function buildCalendarStore() {
+  return buildGTFSStore({
+    trips: [],
+    stopTimes: [],
+    calendar: [
+      calendarEntry('weekday', '1111100'),
+      calendarEntry('weekend', '0000011'),
+      calendarEntry('summer-weekday', '1111100', '20250601', '20250831'),
+    ],
+    calendarDates: [
+      // Special-event supplement on a regular weekday
+      { service_id: 'giants-extra', date: '20250715', exception_type: '1' },
+      // Holiday: weekday service replaced by weekend service
+      { service_id: 'weekday', date: '20250704', exception_type: '2' },
+      { service_id: 'summer-weekday', date: '20250704', exception_type: '2' },
+      { service_id: 'weekend', date: '20250704', exception_type: '1' },
+    ],
+  });
+}
+
+describe('GTFS Store', () => {
+  it('should find trips between two stops in departure order', () => {
+    const store = buildFeed(10);
+    const segments = findTripsBetweenStops(store, 'A', 'B');
+
+    expect(segments.length).toBe(20);
+    expect(segments.every((s) => s.origin.stop_id === 'A' && s.destination.stop_id === 'B')).toBe(true);
+
+    const departures = segments.map((s) => s.origin.departure_time);
+    expect([...departures].sort()).toEqual(departures);
+  });
+
+  it('should not return trips travelling the other way', () => {
+    const store = buildFeed(0);
+    expect(findTripsBetweenStops(store, 'B', 'A').length).toBe(0);
+  });
+
+  it('should apply the trip filter', () => {
+    const store = buildFeed(0);
+    const segments = findTripsBetweenStops(store, 'A', 'B', (trip) => trip.trip_id === 'direct-3');
+
+    expect(segments.length).toBe(1);
+    expect(segments[0].trip.trip_id).toBe('direct-3');
+  });
+
+  it('should index stop times by trip in stop_sequence order', () => {
+    const store = buildFeed(0);
+    const stops = store.stopTimesByTripId.get('direct-0')!.map((st) => st.stop_id);
+    expect(stops).toEqual(['A', 'X', 'B']);
+  });
+
+  it('should return every calendar service running on a weekday', () => {
+    const store = buildCalendarStore();
+    // Tuesday 2025-07-08
+    expect([...getActiveServiceIds(store, '20250708', 2)].sort()).toEqual(['summer-weekday', 'weekday']);
+    // Tuesday 2025-10-14, outside the summer date range
+    expect([...getActiveServiceIds(store, '20251014', 2)]).toEqual(['weekday']);
+  });
+
+  it('should add calendar_dates supplements alongside base service', () => {
+    const store = buildCalendarStore();
+    // Tuesday 2025-07-15 with a special-event supplement
+    expect([...getActiveServiceIds(store, '20250715', 2)].sort()).toEqual(['giants-extra', 'summer-weekday', 'weekday']);
+  });
+
+  it('should apply additions and removals independently on holidays', () => {
+    const store = buildCalendarStore();
+    // Friday 2025-07-04: both weekday services removed, weekend service added
+    expect([...getActiveServiceIds(store, '20250704', 5)]).toEqual(['weekend']);
+  });
+
+  it('should return no services outside the calendar range', () => {
+    const store = buildCalendarStore();
+    expect(getActiveServiceIds(store, '20260105', 1).size).toBe(0);
+  });
+
+  it('should only visit trips that serve the origin stop, whatever the feed size', () => {
+    const smallStore = buildFeed(100);
+    const largeStore = buildFeed(2000);
+
+    expect(largeStore.stopTimes.length).toBeGreaterThan(smallStore.stopTimes.length * 10);
+
+    // Every trip the index hands over passes through includeTrip, so count those visits
+    const countVisits = (store: ReturnType<typeof buildFeed>) => {
+      let visits = 0;
+      findTripsBetweenStops(store, 'A', 'B', () => {
+        visits++;
+        return true;
+      });
+      return visits;
+    };
+
+    expect(countVisits(smallStore)).toBe(20);
+    expect(countVisits(largeStore)).toBe(20);
+  });
+});
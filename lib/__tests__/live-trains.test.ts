@@ -0,0 +1,105 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  applyRealtimeDelays,
+  applyDelayPredictions,
+  hasDelaySource,
+  isCoveredBySystemWideAlert,
+  summarizeDelaySource,
+  EMPTY_REALTIME_SNAPSHOT,
+  RealtimeSnapshot,
+} from '../live-trains';
+import { CaltrainAlert } from '../caltrain-alerts-scraper';
+import { Train } from '../types';
+
+const train = (trainNumber: string): Train => ({
+  trainNumber,
+  tripId: trainNumber,
+  direction: 'Northbound',
+  departureTime: '2025-10-14T15:00:00.000Z',
+  arrivalTime: '2025-10-14T16:00:00.000Z',
+  duration: 60,
+  type: 'Local',
+});
+
+const fetchedAt = new Date('2025-10-14T14:55:00.000Z');
+
+const snapshot = (overrides: Partial<RealtimeSnapshot>): RealtimeSnapshot => ({
+  ...EMPTY_REALTIME_SNAPSHOT,
+  sourceFetchedAt: { caltrainAlerts: fetchedAt, simplifyAlerts: fetchedAt },
+  ...overrides,
+});
+
+describe('Live Trains', () => {
+  it('should record the source, observation time and confidence of each delay', async () => {
+    const trains = [train('113'), train('115')];
+    await applyRealtimeDelays(trains, snapshot({
+      caltrainAlerts: new Map([['113', { trainNumber: '113', delayMinutes: 10, source: 'caltrain-alerts' as const }]]),
+    }), 'sf');
+
+    expect(trains[0].delaySource).toBe('caltrain.com');
+    expect(trains[0].observedAt).toBe(fetchedAt.toISOString());
+    expect(trains[0].delayConfidence).toBe('medium');
+    expect(trains[1].delaySource).toBeUndefined();
+    expect(summarizeDelaySource(trains)).toBe('caltrain.com');
+  });
+
+  it('should list disagreeing sources and lower confidence', async () => {
+    const trains = [train('113'), train('115')];
+    await applyRealtimeDelays(trains, snapshot({
+      caltrainAlerts: new Map([['113', { trainNumber: '113', delayMinutes: 10, source: 'caltrain-alerts' as const }]]),
+      simplifyDelay: 20,
+    }), 'sf');
+
+    expect(trains[0].delay).toBe(10);
+    expect(trains[0].conflictingDelays).toEqual([{ source: 'simplifytransit', delay: 20 }]);
+    expect(trains[0].delayConfidence).toBe('low');
+    expect(trains[1].delaySource).toBe('simplifytransit');
+    expect(summarizeDelaySource(trains)).toBe('mixed');
+  });
+
+  it('should apply a system-wide alert as a live delay and not forecast it again', async () => {
+    process.env.DELAY_HISTORY_DIR = mkdtempSync(path.join(tmpdir(), 'delay-history-'));
+    const northbound = train('113');
+    const southbound = { ...train('116'), direction: 'Southbound' as const };
+    const alert = {
+      alertText: 'All northbound trains delayed 20 minutes',
+      type: 'delay',
+      severity: 'warning',
+      delayMinutes: 20,
+      isSystemWide: true,
+      affectedDirection: 'northbound',
+    } as CaltrainAlert;
+    const live = snapshot({ systemWideDelays: [alert] });
+
+    await applyRealtimeDelays([northbound, southbound], live, 'pa');
+    await applyDelayPredictions([northbound, southbound], 'sf', 'pa', live, fetchedAt);
+
+    expect([northbound.delaySource, northbound.delay]).toEqual(['caltrain.com-systemwide', 20]);
+    expect(northbound.predictedDelay).toBeUndefined();
+    // Not covered by the alert, so neither path applies it
+    expect([southbound.delaySource, southbound.delay]).toEqual([undefined, 0]);
+    expect(southbound.predictedDelay).toBeUndefined();
+  });
+
+  it('should cover both directions when a system-wide alert names none, and only reached trains when located', () => {
+    const northbound = train('113');
+    const southbound = { ...train('116'), direction: 'Southbound' as const };
+    const anywhere = { alertText: '', type: 'delay', severity: 'warning', delayMinutes: 20, isSystemWide: true } as CaltrainAlert;
+    const located = { ...anywhere, affectedLocation: 'San Jose Diridon', affectedDirection: 'both' } as CaltrainAlert;
+    const reach = new Map([[located, new Set([southbound])]]);
+
+    expect([northbound, southbound].map((t) => isCoveredBySystemWideAlert(t, anywhere, reach))).toEqual([true, true]);
+    expect([northbound, southbound].map((t) => isCoveredBySystemWideAlert(t, located, reach))).toEqual([false, true]);
+  });
+
+  it('should count system-wide alerts and tweets as delay sources', () => {
+    const alert = { alertText: '', type: 'delay', severity: 'warning', delayMinutes: 20, isSystemWide: true } as CaltrainAlert;
+    const tweet = { trainNumber: '113', delayMinutes: 10, source: 'twitter' as const };
+
+    expect(hasDelaySource(snapshot({}))).toBe(false);
+    expect(hasDelaySource(snapshot({ systemWideDelays: [alert] }))).toBe(true);
+    expect(hasDelaySource(snapshot({ twitterDelays: new Map([['113', tweet]]) }))).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { getRealtimeSource, resetRealtimeSources, SOURCE_TTL_MS } from '../realtime-sources';
+
+// Let background refreshes settle
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Realtime Sources', () => {
+  it('should share one in-flight fetch between concurrent callers', async () => {
+    resetRealtimeSources();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      return ['update'];
+    };
+
+    const [first, second] = await Promise.all([
+      getRealtimeSource('tripUpdates', fetcher, [] as string[]),
+      getRealtimeSource('tripUpdates', fetcher, [] as string[]),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(first.value).toEqual(['update']);
+    expect(second.value).toEqual(['update']);
+  });
+
+  it('should serve the cached value within the TTL', async () => {
+    resetRealtimeSources();
+    let calls = 0;
+    const fetcher = async () => ++calls;
+
+    await getRealtimeSource('simplifyAlerts', fetcher, null);
+    const cached = await getRealtimeSource('simplifyAlerts', fetcher, null);
+
+    expect(calls).toBe(1);
+    expect(cached.value).toBe(1);
+    expect(cached.ageMs).not.toBeNull();
+  });
+
+  it('should fall back to the empty value when the first fetch fails', async () => {
+    resetRealtimeSources();
+    const failing = async (): Promise<number> => {
+      throw new Error('upstream down');
+    };
+
+    const snapshot = await getRealtimeSource('vehiclePositions', failing, 0);
+
+    expect(snapshot.value).toBe(0);
+    expect(snapshot.fetchedAt).toBeNull();
+  });
+
+  it('should serve the stale value while a refresh runs in the background', async () => {
+    resetRealtimeSources();
+    const realNow = Date.now;
+    let now = realNow();
+    Date.now = () => now;
+
+    try {
+      let calls = 0;
+      let finishRefresh: (value: number) => void = () => undefined;
+      const fetcher = (): Promise<number> => {
+        calls++;
+        return calls === 1 ? Promise.resolve(1) : new Promise((resolve) => { finishRefresh = resolve; });
+      };
+
+      await getRealtimeSource('caltrainAlerts', fetcher, 0);
+      now += SOURCE_TTL_MS.caltrainAlerts + 1000;
+
+      // Neither caller waits for the slow refresh, and it only starts once
+      const stale = await getRealtimeSource('caltrainAlerts', fetcher, 0);
+      const stillStale = await getRealtimeSource('caltrainAlerts', fetcher, 0);
+      expect(calls).toBe(2);
+      expect(stale.value).toBe(1);
+      expect(stillStale.value).toBe(1);
+
+      finishRefresh(2);
+      await flushPromises();
+      const refreshed = await getRealtimeSource('caltrainAlerts', fetcher, 0);
+      expect(refreshed.value).toBe(2);
+      expect(calls).toBe(2);
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  it('should keep the last good value after a failed refresh and wait a TTL before retrying', async () => {
+    resetRealtimeSources();
+    const realNow = Date.now;
+    let now = realNow();
+    Date.now = () => now;
+
+    try {
+      let calls = 0;
+      const fetcher = async (): Promise<string[]> => {
+        calls++;
+        if (calls > 1) throw new Error('upstream down');
+        return ['update'];
+      };
+
+      const first = await getRealtimeSource('tripUpdates', fetcher, [] as string[]);
+      now += SOURCE_TTL_MS.tripUpdates + 1000;
+      const failed = await getRealtimeSource('tripUpdates', fetcher, [] as string[]);
+      await flushPromises();
+      const retried = await getRealtimeSource('tripUpdates', fetcher, [] as string[]);
+
+      expect(calls).toBe(2);
+      expect(failed.value).toEqual(['update']);
+      expect(retried.value).toEqual(['update']);
+      expect(retried.fetchedAt).toEqual(first.fetchedAt);
+
+      now += SOURCE_TTL_MS.tripUpdates + 1000;
+      await getRealtimeSource('tripUpdates', fetcher, [] as string[]);
+      expect(calls).toBe(3);
+    } finally {
+      Date.now = realNow;
+    }
+  });
+});
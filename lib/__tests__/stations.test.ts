@@ -0,0 +1,12 @@
+import { findStationByText } from '../stations';
+
+describe('Stations', () => {
+  it('should resolve alert locations to stations', () => {
+    expect(findStationByText('San Jose Diridon')?.id).toBe('diridon');
+    expect(findStationByText('Diridon Station')?.id).toBe('diridon');
+    expect(findStationByText('4th & King')?.id).toBe('sf');
+    expect(findStationByText('South San Francisco')?.id).toBe('ssf');
+    expect(findStationByText('Redwood City station')?.id).toBe('rw');
+    expect(findStationByText('the Peninsula')).toBeUndefined();
+  });
+});
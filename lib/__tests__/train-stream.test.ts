@@ -0,0 +1,40 @@
+import { diffTrains } from '../train-stream';
+import { Train } from '../types';
+
+const train = (trainNumber: string, overrides: Partial<Train> = {}): Train => ({
+  trainNumber,
+  tripId: trainNumber,
+  direction: 'Northbound',
+  departureTime: '2025-10-14T15:00:00.000Z',
+  arrivalTime: '2025-10-14T16:00:00.000Z',
+  duration: 60,
+  type: 'Local',
+  status: 'on-time',
+  delay: 0,
+  ...overrides,
+});
+
+describe('Train Stream', () => {
+  it('should report nothing when live fields are unchanged', () => {
+    const trains = [train('113'), train('409')];
+    expect(diffTrains(trains, trains.map((t) => ({ ...t })))).toEqual({ added: [], changed: [], removed: [] });
+  });
+
+  it('should report delay, status and forecast changes', () => {
+    const previous = [train('113'), train('409'), train('115')];
+    const next = [
+      train('113', { status: 'delayed', delay: 6 }),
+      train('409'),
+      train('115', { predictedDelay: { expectedDelay: 4, low: 2, high: 8, confidence: 'low', basis: ['history'] } }),
+    ];
+
+    expect(diffTrains(previous, next).changed.map((t) => t.trainNumber)).toEqual(['113', '115']);
+  });
+
+  it('should report trains entering and leaving the window', () => {
+    const diff = diffTrains([train('113'), train('409')], [train('409'), train('115')]);
+
+    expect(diff.added.map((t) => t.trainNumber)).toEqual(['115']);
+    expect(diff.removed).toEqual(['113']);
+  });
+});
@@ -0,0 +1,93 @@
+import { buildGTFSStore, GTFSStopTime, GTFSTrip } from '../gtfs-store';
+import {
+  buildTransferRules,
+  findTransferItineraries,
+  getMinTransferSeconds,
+  TransferRules,
+} from '../trip-planner';
+
+/**
+ * Corridor A - B - C - D. Locals stop everywhere, the express only at B and D
+ * and overtakes the local between B and D
+ */
+function buildFeed(expressDepartsB: string) {
+  const trips: GTFSTrip[] = [];
+  const stopTimes: GTFSStopTime[] = [];
+
+  const addTrip = (tripId: string, stops: Array<[string, string]>) => {
+    trips.push({
+      trip_id: tripId,
+      route_id: 'r1',
+      service_id: 'weekday',
+      trip_short_name: tripId,
+      trip_headsign: 'D',
+      direction_id: '1',
+    });
+    stops.forEach(([stopId, time], i) => {
+      stopTimes.push({ trip_id: tripId, arrival_time: time, departure_time: time, stop_id: stopId, stop_sequence: i + 1 });
+    });
+  };
+
+  addTrip('local-1', [['A', '08:00:00'], ['B', '08:10:00'], ['C', '08:20:00'], ['D', '08:40:00']]);
+  addTrip('express-1', [['B', expressDepartsB], ['D', '08:25:00']]);
+  addTrip('local-2', [['A', '08:30:00'], ['B', '08:40:00'], ['C', '08:50:00'], ['D', '09:10:00']]);
+
+  return buildGTFSStore({ trips, stopTimes, calendar: [], calendarDates: [] });
+}
+
+function search(store: ReturnType<typeof buildFeed>, rules: TransferRules = new Map()) {
+  return findTransferItineraries(store, {
+    originStopId: 'A',
+    destinationStopId: 'D',
+    includeTrip: () => true,
+    transferPlatforms: (stopId) => [stopId],
+    transferRules: rules,
+  });
+}
+
+describe('Trip Planner', () => {
+  it('should find a transfer onto a faster train', () => {
+    const itineraries = search(buildFeed('08:13:00'));
+
+    expect(itineraries.length).toBe(1);
+    const [first, second] = itineraries[0].legs;
+    expect(first.trip.trip_id).toBe('local-1');
+    expect(first.destination.stop_id).toBe('B');
+    expect(second.trip.trip_id).toBe('express-1');
+    expect(second.destination.arrival_time).toBe('08:25:00');
+    expect(itineraries[0].transferSeconds).toBe(180);
+  });
+
+  it('should respect the minimum transfer time', () => {
+    // Express leaves 30 seconds after the local arrives - too tight for the 60s default
+    expect(search(buildFeed('08:10:30')).length).toBe(0);
+  });
+
+  it('should apply transfers.txt rules', () => {
+    const timed = buildTransferRules([
+      { from_stop_id: 'B', to_stop_id: 'B', transfer_type: '1', min_transfer_time: '' },
+    ]);
+    expect(search(buildFeed('08:10:30'), timed).length).toBe(1);
+
+    const blocked = buildTransferRules([
+      { from_stop_id: 'B', to_stop_id: 'B', transfer_type: '3', min_transfer_time: '' },
+    ]);
+    expect(search(buildFeed('08:13:00'), blocked).length).toBe(0);
+  });
+
+  it('should drop itineraries that a direct train beats', () => {
+    // Express arrives after the local it would replace
+    const store = buildFeed('08:13:00');
+    store.stopTimeByTripAndStop.get('express-1')!.get('D')!.arrival_time = '08:45:00';
+    expect(search(store).length).toBe(0);
+  });
+
+  it('should read min_transfer_time for type 2 rules', () => {
+    const rules = buildTransferRules([
+      { from_stop_id: 'B', to_stop_id: 'B2', transfer_type: '2', min_transfer_time: '300' },
+    ]);
+    expect(getMinTransferSeconds(rules, 'B', 'B2')).toBe(300);
+    expect(getMinTransferSeconds(rules, 'B', 'B')).toBe(60);
+    expect(getMinTransferSeconds(rules, 'C', 'C2')).toBe(180);
+  });
+});
@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseDelayFromTweet, extractTwitterTrainDelays, TwitterTrainDelay } from '../twitter-alerts-scraper';
+
+interface TweetFixture {
+  text: string;
+  expected: { trainNumber: string; delayMinutes: number; direction?: 'Northbound' | 'Southbound' } | null;
+}
+
+const tweets: TweetFixture[] = JSON.parse(
+  readFileSync(path.join(__dirname, 'fixtures', 'twitter', 'tweets.json'), 'utf8')
+);
+
+const postedAt = '2025-10-14T15:00:00.000Z';
+
+describe('Twitter Alerts Scraper', () => {
+  it('should parse train number, delay and direction from saved tweets', () => {
+    for (const tweet of tweets) {
+      const parsed = parseDelayFromTweet(tweet.text, postedAt);
+
+      if (tweet.expected === null) {
+        expect(parsed).toBeNull();
+      } else {
+        expect(parsed?.trainNumber).toBe(tweet.expected.trainNumber);
+        expect(parsed?.delayMinutes).toBe(tweet.expected.delayMinutes);
+        expect(parsed?.direction).toBe(tweet.expected.direction);
+      }
+    }
+  });
+
+  it('should keep the newest tweet per train within the freshness window', () => {
+    const delay = (trainNumber: string, delayMinutes: number, minutesAgo: number): TwitterTrainDelay => ({
+      trainNumber,
+      delayMinutes,
+      timestamp: new Date(Date.parse(postedAt) - minutesAgo * 60 * 1000),
+      tweetText: '',
+    });
+
+    const delays = extractTwitterTrainDelays(
+      [delay('166', 14, 30), delay('166', 20, 5), delay('151', 19, 180)],
+      new Date(postedAt)
+    );
+
+    expect(delays.get('166')).toEqual({ trainNumber: '166', delayMinutes: 20, source: 'twitter' });
+    expect(delays.has('151')).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+// Alert Text Grammar
+// Tokenizes free-text service alerts and reads train lists, delay ranges, directions, stations
+// and disruption type ("Trains 123, 125 and 127 delayed 10-15 min", "SB 440 single tracking at Palo Alto")
+
+import { matchStationWords } from './stations';
+
+export type AlertKind = 'bus-bridge' | 'single-tracking' | 'cancellation' | 'running-ahead' | 'delay' | 'general';
+
+export interface ParsedAlertText {
+  kind: AlertKind;
+  trainNumbers: string[]; // Every train named, in order of appearance
+  runningAhead?: string[]; // Trains that will run ahead of others ("Train 167 will run ahead of Train 165")
+  allTrains: boolean; // "All trains", "all northbound trains", "systemwide"
+  direction?: 'northbound' | 'southbound' | 'both';
+  delayMinutes?: { min: number; max: number };
+  stationIds: string[]; // Every station named, in order of appearance
+  locationStationId?: string; // Station after "at", "near", "around" or "in"
+  segment?: [string, string]; // Station ids from "between X and Y" or "from X to Y"
+}
+
+interface Token {
+  text: string; // Lowercased
+  kind: 'number' | 'word' | 'punct';
+}
+
+// Trains are numbered 100-999; list items must look like one
+const TRAIN_NUMBER = /^[1-9]\d{2}$/;
+
+// Longest train range expanded from "Trains 101-111"
+const MAX_TRAIN_RANGE = 20;
+
+const TRAIN_WORDS = new Set(['train', 'trains', 'nb', 'sb', 'northbound', 'southbound']);
+const LIST_SEPARATORS = new Set([',', 'and', '&', '/', 'or']);
+const RANGE_SEPARATORS = new Set(['-', 'to', 'through', 'thru']);
+const DIRECTION_WORDS: Record<string, 'northbound' | 'southbound'> = {
+  nb: 'northbound',
+  northbound: 'northbound',
+  sb: 'southbound',
+  southbound: 'southbound',
+};
+const MINUTE_WORDS = new Set(['min', 'mins', 'minute', 'minutes']);
+const HOUR_WORDS = new Set(['hr', 'hrs', 'hour', 'hours']);
+const DELAY_WORDS = new Set(['delay', 'delays', 'delayed', 'late', 'behind']);
+const LOCATION_WORDS = new Set(['at', 'near', 'around', 'in']);
+// Punctuation that can sit inside a station name ("San Francisco (4th & King)")
+const STATION_PUNCTUATION = new Set(['(', ')', '-', '.']);
+
+/**
+ * Split alert text into numbers, words (ordinals like "4th" stay whole) and punctuation
+ */
+function tokenize(text: string): Token[] {
+  return (text.match(/\d+(?:st|nd|rd|th)\b|\d+|[a-z]+|[^\sa-z0-9]/gi) || []).map((raw) => {
+    const token = raw.toLowerCase();
+    if (token === '&') return { text: 'and', kind: 'word' };
+    if (/^\d+$/.test(token)) return { text: token, kind: 'number' };
+    if (/^[a-z0-9]+$/.test(token)) return { text: token, kind: 'word' };
+    return { text: token, kind: 'punct' };
+  });
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return !!token && token.kind === 'word' && words.includes(token.text);
+}
+
+/**
+ * TrainList := NUM ((LIST_SEPARATOR | RANGE_SEPARATOR) NUM)*, after a train word or "#"
+ *
+ * @returns Train numbers and the index after the list
+ */
+function readTrainList(tokens: Token[], start: number): { numbers: string[]; end: number } {
+  const numbers: string[] = [];
+  let i = start;
+
+  while (i < tokens.length) {
+    if (tokens[i].text === '#') i++;
+    if (tokens[i]?.kind !== 'number' || !TRAIN_NUMBER.test(tokens[i].text)) break;
+    numbers.push(tokens[i].text);
+    i++;
+
+    const separator = tokens[i];
+    const nextIndex = tokens[i + 1]?.text === '#' ? i + 2 : i + 1;
+    const next = tokens[nextIndex];
+    if (!separator || next?.kind !== 'number' || !TRAIN_NUMBER.test(next.text)) break;
+
+    if (RANGE_SEPARATORS.has(separator.text)) {
+      // Same parity means same direction, so step by two ("101-111" is every northbound train in between)
+      const from = parseInt(tokens[i - 1].text);
+      const to = parseInt(next.text);
+      const step = from % 2 === to % 2 ? 2 : 1;
+      if (to > from && (to - from) / step <= MAX_TRAIN_RANGE) {
+        for (let number = from + step; number < to; number += step) {
+          numbers.push(String(number));
+        }
+      }
+    } else if (!LIST_SEPARATORS.has(separator.text)) {
+      break;
+    }
+    i = nextIndex;
+  }
+
+  return { numbers, end: i };
+}
+
+/**
+ * Duration := ("up" "to")? NUM (("-" | "to") NUM)? UNIT
+ *           | NUM ("-" | "to") NUM DELAY_WORD, in minutes ("Up to 30-60 Delay for All Trains")
+ */
+function readDuration(tokens: Token[], start: number): { min: number; max: number; end: number } | null {
+  if (tokens[start]?.kind !== 'number') return null;
+
+  const first = parseInt(tokens[start].text);
+  let second = first;
+  let isRange = false;
+  let i = start + 1;
+  if ((tokens[i]?.text === '-' || isWord(tokens[i], 'to')) && tokens[i + 1]?.kind === 'number') {
+    second = parseInt(tokens[i + 1].text);
+    isRange = true;
+    i += 2;
+  }
+
+  const unit = tokens[i];
+  if (!unit || unit.kind !== 'word') return null;
+  if (isRange && DELAY_WORDS.has(unit.text)) {
+    // Leave the delay word for the caller
+    return { min: Math.min(first, second), max: Math.max(first, second), end: i };
+  }
+  const scale = MINUTE_WORDS.has(unit.text) ? 1 : HOUR_WORDS.has(unit.text) ? 60 : 0;
+  if (!scale) return null;
+
+  return { min: Math.min(first, second) * scale, max: Math.max(first, second) * scale, end: i + 1 };
+}
+
+/**
+ * Station := name or alias words, allowing the punctuation inside names
+ *
+ * @returns Station id and the index after the name
+ */
+function readStation(tokens: Token[], start: number): { stationId: string; end: number } | null {
+  if (tokens[start]?.kind === 'punct') return null;
+
+  // Words from here on, remembering where each came from
+  const words: string[] = [];
+  const positions: number[] = [];
+  for (let i = start; i < tokens.length && words.length < 6; i++) {
+    if (tokens[i].kind === 'punct') {
+      if (STATION_PUNCTUATION.has(tokens[i].text)) continue;
+      break;
+    }
+    words.push(tokens[i].text);
+    positions.push(i);
+  }
+
+  const match = matchStationWords(words);
+  if (!match) return null;
+
+  let end = positions[match.wordCount - 1] + 1;
+  if (tokens[end]?.text === ')') end++;
+  return { stationId: match.station.id, end };
+}
+
+/**
+ * Parse a single alert into structured form
+ */
+export function parseAlertText(text: string): ParsedAlertText {
+  const tokens = tokenize(text);
+
+  const trainNumbers: string[] = [];
+  const runningAhead: string[] = [];
+  const stationIds: string[] = [];
+  const directions = new Set<'northbound' | 'southbound'>();
+  let delayMinutes: { min: number; max: number } | undefined;
+  let hasDelayWord = false;
+  let allTrains = false;
+  let locationStationId: string | undefined;
+  let segment: [string, string] | undefined;
+  const kinds = new Set<AlertKind>();
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    // Train references: "Train 123", "Trains 101, 103 and 105", "SB 440", "#412"
+    if ((TRAIN_WORDS.has(token.text) && token.kind === 'word') || token.text === '#') {
+      if (DIRECTION_WORDS[token.text]) directions.add(DIRECTION_WORDS[token.text]);
+      const list = readTrainList(tokens, i + 1);
+      if (list.numbers.length > 0) {
+        trainNumbers.push(...list.numbers.filter((number) => !trainNumbers.includes(number)));
+        i = list.end;
+        continue;
+      }
+    }
+
+    if (DIRECTION_WORDS[token.text] && token.kind === 'word') {
+      directions.add(DIRECTION_WORDS[token.text]);
+    }
+    if (isWord(token, 'both') && isWord(next, 'directions')) {
+      directions.add('northbound');
+      directions.add('southbound');
+    }
+
+    // "All trains", "all northbound trains", "all service"
+    if (isWord(token, 'all')) {
+      const subject = DIRECTION_WORDS[next?.text] ? tokens[i + 2] : next;
+      if (isWord(subject, 'trains', 'service')) allTrains = true;
+    }
+    if (isWord(token, 'systemwide') || (isWord(token, 'system') && (isWord(next, 'wide') || isWord(tokens[i + 2], 'wide')))) {
+      allTrains = true;
+    }
+
+    // Durations: "10-15 min", "up to 40-45 minute", "1 hour"
+    const duration = readDuration(tokens, i);
+    if (duration) {
+      delayMinutes = delayMinutes
+        ? { min: Math.min(delayMinutes.min, duration.min), max: Math.max(delayMinutes.max, duration.max) }
+        : { min: duration.min, max: duration.max };
+      i = duration.end;
+      continue;
+    }
+
+    if (token.kind === 'word') {
+      if (DELAY_WORDS.has(token.text)) hasDelayWord = true;
+      if (isWord(token, 'bus', 'buses') && isWord(next, 'bridge', 'bridges', 'shuttle', 'shuttles', 'replace', 'will')) {
+        kinds.add('bus-bridge');
+      }
+      if (isWord(token, 'single') && (isWord(next, 'tracking', 'track', 'tracked') || (next?.text === '-' && isWord(tokens[i + 2], 'tracking')))) {
+        kinds.add('single-tracking');
+      }
+      if (token.text.startsWith('cancel') || token.text.startsWith('annul')) kinds.add('cancellation');
+      if (isWord(token, 'run', 'runs', 'running') && isWord(next, 'ahead')) {
+        kinds.add('running-ahead');
+        // Trains named so far are the ones running ahead
+        runningAhead.push(...trainNumbers.filter((number) => !runningAhead.includes(number)));
+      }
+
+      // "between X and Y", "from X to Y"
+      if (isWord(token, 'between', 'from')) {
+        const first = readStation(tokens, i + 1);
+        const joiner = first ? tokens[first.end] : undefined;
+        if (first && isWord(joiner, token.text === 'between' ? 'and' : 'to')) {
+          const second = readStation(tokens, first.end + 1);
+          if (second) {
+            segment = segment || [first.stationId, second.stationId];
+            for (const id of [first.stationId, second.stationId]) {
+              if (!stationIds.includes(id)) stationIds.push(id);
+            }
+            i = second.end;
+            continue;
+          }
+        }
+      }
+
+      const station = readStation(tokens, i);
+      if (station) {
+        if (!stationIds.includes(station.stationId)) stationIds.push(station.stationId);
+        if (!locationStationId && LOCATION_WORDS.has(tokens[i - 1]?.text)) {
+          locationStationId = station.stationId;
+        }
+        i = station.end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  // Most disruptive wording decides the kind
+  const kind = (['bus-bridge', 'single-tracking', 'cancellation', 'running-ahead'] as AlertKind[])
+    .find((candidate) => kinds.has(candidate)) || (hasDelayWord ? 'delay' : 'general');
+
+  return {
+    kind,
+    trainNumbers,
+    ...(runningAhead.length > 0 ? { runningAhead } : {}),
+    allTrains,
+    ...(directions.size > 0 ? { direction: directions.size > 1 ? 'both' as const : [...directions][0] } : {}),
+    // A bare duration ("arrives in 10 minutes") isn't a delay
+    ...(delayMinutes && hasDelayWord ? { delayMinutes } : {}),
+    stationIds,
+    ...(locationStationId ? { locationStationId } : {}),
+    ...(segment ? { segment } : {}),
+  };
+}
@@ -0,0 +1,342 @@
+// Cross-source Alert Merger
+// Normalizes alerts from 511.org, Caltrain.com, SimplifyTransit and @CaltrainAlerts, then clusters
+// reports of the same incident into one alert that lists every source that carried it
+
+import { Alert, filterAlerts } from './gtfs-realtime';
+import { CaltrainAlert } from './caltrain-alerts-scraper';
+import { SimplifyTransitAlert } from './simplifytransit-scraper';
+import { TwitterTrainDelay, TWITTER_DELAY_MAX_AGE_MINUTES } from './twitter-alerts-scraper';
+import { findStationsInText } from './stations';
+
+// In order of preference for the canonical text
+export type AlertSource = '511' | 'caltrain.com' | 'simplifytransit' | 'twitter';
+
+const SOURCE_PREFERENCE: AlertSource[] = ['511', 'caltrain.com', 'simplifytransit', 'twitter'];
+
+// Reports this far apart (in time) are treated as separate incidents
+export const MERGE_WINDOW_MINUTES = 30;
+
+// Share of the shorter text's words two alerts must have in common to be the same incident
+const SAME_TEXT_OVERLAP = 0.6;
+const SAME_PLACE_TEXT_OVERLAP = 0.3;
+
+// Merged alert id last given to each source report, so a cluster keeps its id when a preferred
+// source joins it later (the alert registry keys first-seen and cleared times by id)
+let clusterIdByReport = new Map<string, string>();
+
+export interface NormalizedAlert {
+  source: AlertSource;
+  id: string; // Stable across polls for the same source alert
+  severity: Alert['severity'];
+  title: string;
+  description: string;
+  url?: string;
+  trainNumbers: string[];
+  stationIds: string[];
+  startsAt?: number; // unix timestamp, when the source says it started
+  endsAt?: number; // unix timestamp, when the source says it ends
+  observedAt: number; // unix timestamp, when the source was fetched
+  alert?: Alert; // Original 511 alert, when there is one
+}
+
+export interface MergedAlert extends Alert {
+  sources: AlertSource[];
+  trainNumbers: string[];
+  stationIds: string[];
+}
+
+/**
+ * Train numbers mentioned in alert text ("Train 113", "Trains 101 and 103", "#412")
+ */
+export function findTrainNumbers(text: string): string[] {
+  const numbers = new Set<string>();
+
+  for (const match of text.matchAll(/\btrains?\s+((?:#?\d{3}\b(?:\s*(?:,|and|&)\s*)?)+)/gi)) {
+    for (const number of match[1].match(/\d{3}/g) || []) {
+      numbers.add(number);
+    }
+  }
+  for (const match of text.matchAll(/#(\d{3})\b/g)) {
+    numbers.add(match[1]);
+  }
+
+  return [...numbers];
+}
+
+function stationIdsInText(text: string): string[] {
+  return findStationsInText(text).map((station) => station.id);
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+}
+
+function toUnix(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Normalize 511.org alerts; stop and trip entities become station ids and train numbers
+ *
+ * @param stationIdForStop - Maps a GTFS stop_id to an app station id
+ */
+export function normalize511Alerts(
+  alerts: Alert[],
+  observedAt: Date,
+  stationIdForStop: (stopId: string) => string | undefined = () => undefined
+): NormalizedAlert[] {
+  return alerts.map((alert) => {
+    const text = `${alert.headerText} ${alert.descriptionText}`;
+    const stationIds = new Set(stationIdsInText(text));
+    const trainNumbers = new Set(findTrainNumbers(text));
+
+    for (const entity of alert.informedEntities) {
+      const stationId = entity.stopId ? stationIdForStop(entity.stopId) : undefined;
+      if (stationId) stationIds.add(stationId);
+      // Caltrain trip_ids in the 511 feed are train numbers
+      const trainNumber = entity.tripId?.match(/(\d{3})$/)?.[1];
+      if (trainNumber) trainNumbers.add(trainNumber);
+    }
+
+    const start = alert.activePeriods.find((period) => period.start > 0)?.start;
+    const end = alert.activePeriods.find((period) => period.end > 0)?.end;
+
+    return {
+      source: '511' as const,
+      id: alert.id,
+      severity: alert.severity,
+      title: alert.headerText,
+      description: alert.descriptionText,
+      url: alert.url,
+      trainNumbers: [...trainNumbers],
+      stationIds: [...stationIds],
+      startsAt: start,
+      endsAt: end,
+      observedAt: toUnix(observedAt),
+      alert,
+    };
+  });
+}
+
+/**
+ * Normalize alerts scraped from Caltrain.com
+ */
+export function normalizeCaltrainAlerts(alerts: CaltrainAlert[], observedAt: Date): NormalizedAlert[] {
+  return alerts.map((alert) => {
+    const trainNumbers = new Set([...findTrainNumbers(alert.alertText), ...(alert.trainNumbers || [])]);
+
+    return {
+      source: 'caltrain.com' as const,
+      id: `caltrain-${slug(alert.alertText)}`,
+      severity: alert.severity,
+      title: alert.alertText,
+      description: '',
+      trainNumbers: [...trainNumbers],
+      stationIds: stationIdsInText(`${alert.alertText} ${alert.affectedLocation || ''}`),
+      observedAt: toUnix(observedAt),
+    };
+  });
+}
+
+/**
+ * Normalize alerts scraped from SimplifyTransit
+ */
+export function normalizeSimplifyAlerts(alerts: SimplifyTransitAlert[], observedAt: Date): NormalizedAlert[] {
+  return alerts.map((alert) => {
+    const startsAt = Date.parse(alert.startTime);
+    const endsAt = Date.parse(alert.endTime);
+    const severity: Alert['severity'] = /no service|suspend/i.test(alert.effect) || (alert.delayMinutes || 0) >= 30
+      ? 'critical'
+      : alert.delayMinutes || /delay/i.test(alert.effect) ? 'warning' : 'info';
+
+    return {
+      source: 'simplifytransit' as const,
+      id: `simplify-${slug(alert.title)}`,
+      severity,
+      title: alert.title,
+      description: [alert.cause, alert.effect].filter(Boolean).join(' · '),
+      trainNumbers: findTrainNumbers(alert.title),
+      stationIds: stationIdsInText(alert.title),
+      startsAt: Number.isNaN(startsAt) ? undefined : Math.floor(startsAt / 1000),
+      endsAt: Number.isNaN(endsAt) ? undefined : Math.floor(endsAt / 1000),
+      observedAt: toUnix(observedAt),
+    };
+  });
+}
+
+/**
+ * Normalize recent @CaltrainAlerts delay tweets (on-time notices are not alerts)
+ */
+export function normalizeTwitterDelays(delays: TwitterTrainDelay[], observedAt: Date): NormalizedAlert[] {
+  const cutoff = observedAt.getTime() - TWITTER_DELAY_MAX_AGE_MINUTES * 60 * 1000;
+
+  return delays
+    .filter((delay) => delay.delayMinutes > 0 && delay.timestamp.getTime() >= cutoff)
+    .map((delay) => ({
+      source: 'twitter' as const,
+      id: `twitter-${delay.trainNumber}-${toUnix(delay.timestamp)}`,
+      severity: delay.delayMinutes >= 30 ? 'critical' as const : 'warning' as const,
+      title: delay.tweetText,
+      description: '',
+      trainNumbers: [delay.trainNumber],
+      stationIds: stationIdsInText(delay.tweetText),
+      startsAt: toUnix(delay.timestamp),
+      observedAt: toUnix(observedAt),
+    }));
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 1));
+}
+
+/**
+ * Share of the smaller word set found in the other (overlap coefficient)
+ */
+function textOverlap(a: NormalizedAlert, b: NormalizedAlert): number {
+  const wordsA = words(a.title);
+  const wordsB = words(b.title);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+/**
+ * Whether two reports describe the same incident
+ * Train numbers decide when either names a train; otherwise a shared station with similar
+ * wording, or closely matching wording alone.
+ */
+function isSameIncident(a: NormalizedAlert, b: NormalizedAlert): boolean {
+  // Time windows: [start, end] padded by the merge window; scraped alerts only have their fetch time
+  const window = MERGE_WINDOW_MINUTES * 60;
+  const startA = (a.startsAt ?? a.observedAt) - window;
+  const endA = (a.endsAt ?? a.observedAt) + window;
+  const startB = (b.startsAt ?? b.observedAt) - window;
+  const endB = (b.endsAt ?? b.observedAt) + window;
+  if (startA > endB || startB > endA) return false;
+
+  if (a.trainNumbers.length > 0 || b.trainNumbers.length > 0) {
+    return a.trainNumbers.some((number) => b.trainNumbers.includes(number));
+  }
+
+  if (a.stationIds.length > 0 && b.stationIds.length > 0) {
+    return a.stationIds.some((id) => b.stationIds.includes(id)) && textOverlap(a, b) >= SAME_PLACE_TEXT_OVERLAP;
+  }
+
+  return textOverlap(a, b) >= SAME_TEXT_OVERLAP;
+}
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { info: 0, warning: 1, critical: 2 };
+
+/**
+ * Build one alert from a cluster of reports
+ * Text comes from the most preferred source (longest wording within it); severity is the worst reported.
+ */
+function mergeCluster(cluster: NormalizedAlert[]): MergedAlert {
+  const [canonical] = [...cluster].sort((a, b) =>
+    SOURCE_PREFERENCE.indexOf(a.source) - SOURCE_PREFERENCE.indexOf(b.source) ||
+    b.title.length - a.title.length
+  );
+
+  const severity = cluster.reduce<Alert['severity']>(
+    (worst, report) => SEVERITY_RANK[report.severity] > SEVERITY_RANK[worst] ? report.severity : worst,
+    'info'
+  );
+  const starts = cluster.map((report) => report.startsAt).filter((time): time is number => time !== undefined);
+  const ends = cluster.map((report) => report.endsAt).filter((time): time is number => time !== undefined);
+
+  // Keep the 511 alert's own periods and entities so feed-level filters still work
+  const feedAlert = cluster.find((report) => report.alert)?.alert;
+
+  return {
+    id: canonical.id,
+    severity,
+    headerText: canonical.title,
+    descriptionText: canonical.description || cluster.find((report) => report.description)?.description || '',
+    url: canonical.url || cluster.find((report) => report.url)?.url,
+    cause: feedAlert?.cause,
+    effect: feedAlert?.effect,
+    activePeriods: feedAlert?.activePeriods || (starts.length > 0 || ends.length > 0
+      ? [{ start: starts.length > 0 ? Math.min(...starts) : 0, end: ends.length > 0 ? Math.max(...ends) : 0 }]
+      : []),
+    informedEntities: feedAlert?.informedEntities || [],
+    sources: SOURCE_PREFERENCE.filter((source) => cluster.some((report) => report.source === source)),
+    trainNumbers: [...new Set(cluster.flatMap((report) => report.trainNumbers))],
+    stationIds: [...new Set(cluster.flatMap((report) => report.stationIds))],
+  };
+}
+
+/**
+ * Cluster reports of the same incident across sources and merge each cluster
+ * A cluster keeps the id it had on the previous merge when any of its reports was already part
+ * of it; new clusters take the id of their canonical report.
+ */
+export function mergeAlerts(reports: NormalizedAlert[]): MergedAlert[] {
+  const clusters: NormalizedAlert[][] = [];
+
+  const ordered = [...reports].sort((a, b) => SOURCE_PREFERENCE.indexOf(a.source) - SOURCE_PREFERENCE.indexOf(b.source));
+  for (const report of ordered) {
+    const cluster = clusters.find((members) => members.some((member) => isSameIncident(member, report)));
+    if (cluster) {
+      cluster.push(report);
+    } else {
+      clusters.push([report]);
+    }
+  }
+
+  const usedIds = new Set<string>();
+  const nextClusterIds = new Map<string, string>();
+
+  const merged = clusters.map((cluster) => {
+    const alert = mergeCluster(cluster);
+    const previousId = cluster
+      .map((report) => clusterIdByReport.get(report.id))
+      .find((id): id is string => !!id && !usedIds.has(id));
+    if (previousId) alert.id = previousId;
+
+    usedIds.add(alert.id);
+    for (const report of cluster) {
+      nextClusterIds.set(report.id, alert.id);
+    }
+    return alert;
+  });
+
+  clusterIdByReport = nextClusterIds;
+  return merged;
+}
+
+/**
+ * Forget the ids given to earlier clusters (for tests)
+ */
+export function resetAlertMerger(): void {
+  clusterIdByReport = new Map();
+}
+
+/**
+ * Merged alerts that concern the given stations or trips
+ * Stations and trains named by any source match, as do the 511 alert's informed stop and trip
+ * entities (see filterAlerts). Alerts naming no station, train, stop or trip concern everyone.
+ *
+ * @param filter - App station ids with their GTFS stop_ids, and GTFS trip_ids or train numbers
+ */
+export function filterMergedAlerts(
+  alerts: MergedAlert[],
+  filter: { stationIds?: string[]; stopIds?: Set<string>; tripIds?: string[] }
+): MergedAlert[] {
+  const { stationIds, stopIds, tripIds } = filter;
+  if (!stationIds && !tripIds) return alerts;
+
+  const feedFilter = { stopIds: stopIds || new Set<string>(), tripIds: tripIds || [] };
+
+  return alerts.filter((alert) => {
+    const hasEntityTargets = alert.informedEntities.some((entity) => entity.stopId || entity.tripId);
+    if (alert.stationIds.length === 0 && alert.trainNumbers.length === 0 && !hasEntityTargets) return true;
+
+    return alert.stationIds.some((id) => stationIds?.includes(id)) ||
+      alert.trainNumbers.some((number) => tripIds?.some((wanted) => wanted === number || wanted.endsWith(`-${number}`))) ||
+      (hasEntityTargets && filterAlerts([alert], feedFilter).length > 0);
+  });
+}
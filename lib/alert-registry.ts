@@ -0,0 +1,98 @@
+// Service Alert Registry
+// Remembers each alert across polls: when it was first and last seen, and when it cleared
+// Callers keep to one alert type (the route stores merged alerts)
+
+import { Alert } from './gtfs-realtime';
+
+// How long cleared alerts stay in the "recently cleared" list
+export const RESOLVED_ALERT_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+export interface AlertRecord<T extends Alert = Alert> {
+  alert: T; // Latest version from the feed
+  firstSeen: string; // ISO, first poll that carried the alert
+  lastSeen: string; // ISO, last poll that carried the alert
+  resolvedAt?: string; // ISO, first poll without it (or after its active period ended)
+}
+
+const records = new Map<string, AlertRecord>();
+let lastUpdatedAt = 0;
+
+/**
+ * Whether the alert's source active periods have all ended
+ */
+function hasEnded(alert: Alert, time: number): boolean {
+  return alert.activePeriods.length > 0 &&
+    alert.activePeriods.every((period) => period.end > 0 && period.end < time);
+}
+
+/**
+ * Fold one poll of the alerts feed into the registry
+ * Polls older than the last one applied are ignored.
+ */
+export function updateAlertRegistry<T extends Alert>(alerts: T[], seenAt: Date = new Date()): void {
+  if (seenAt.getTime() <= lastUpdatedAt) return;
+  lastUpdatedAt = seenAt.getTime();
+
+  const seenAtIso = seenAt.toISOString();
+  const unixTime = Math.floor(seenAt.getTime() / 1000);
+  const present = new Set<string>();
+
+  for (const alert of alerts) {
+    present.add(alert.id);
+    const existing = records.get(alert.id);
+    const ended = hasEnded(alert, unixTime);
+
+    if (!existing) {
+      records.set(alert.id, {
+        alert,
+        firstSeen: seenAtIso,
+        lastSeen: seenAtIso,
+        ...(ended ? { resolvedAt: seenAtIso } : {}),
+      });
+    } else {
+      existing.alert = alert;
+      existing.lastSeen = seenAtIso;
+      if (ended) {
+        existing.resolvedAt = existing.resolvedAt || seenAtIso;
+      } else {
+        // Re-posted after clearing
+        delete existing.resolvedAt;
+      }
+    }
+  }
+
+  for (const [id, record] of records) {
+    if (!present.has(id) && !record.resolvedAt) {
+      record.resolvedAt = seenAtIso;
+    }
+    if (record.resolvedAt && seenAt.getTime() - Date.parse(record.resolvedAt) > RESOLVED_ALERT_RETENTION_MS) {
+      records.delete(id);
+    }
+  }
+}
+
+/**
+ * Alerts still in the feed, newest first
+ */
+export function getActiveAlertRecords<T extends Alert = Alert>(): AlertRecord<T>[] {
+  return ([...records.values()] as AlertRecord<T>[])
+    .filter((record) => !record.resolvedAt)
+    .sort((a, b) => Date.parse(b.firstSeen) - Date.parse(a.firstSeen));
+}
+
+/**
+ * Alerts cleared within the retention window, most recently cleared first
+ */
+export function getResolvedAlertRecords<T extends Alert = Alert>(): AlertRecord<T>[] {
+  return ([...records.values()] as AlertRecord<T>[])
+    .filter((record) => !!record.resolvedAt)
+    .sort((a, b) => Date.parse(b.resolvedAt!) - Date.parse(a.resolvedAt!));
+}
+
+/**
+ * Forget every alert (for tests)
+ */
+export function resetAlertRegistry(): void {
+  records.clear();
+  lastUpdatedAt = 0;
+}
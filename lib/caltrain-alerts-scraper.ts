@@ -1,11 +1,15 @@
 // Caltrain.com Alerts Scraper
 // Scrapes train-specific delay information from Caltrain.com/alerts
 
+import { parseAlertText, ParsedAlertText } from './alert-grammar';
+import { getStationById } from './stations';
+
 export interface CaltrainAlert {
-  trainNumber?: string;
+  trainNumber?: string; // First train named
+  trainNumbers?: string[]; // Every train named ("Trains 123, 125 and 127")
   delayMinutes?: number;
   alertText: string;
-  type: 'delay' | 'running-ahead' | 'cancellation' | 'general' | 'elevator';
+  type: 'delay' | 'running-ahead' | 'cancellation' | 'single-tracking' | 'bus-bridge' | 'general' | 'elevator';
   severity: 'info' | 'warning' | 'critical';
   // System-wide delay information
   isSystemWide?: boolean;
@@ -16,7 +20,7 @@ export interface CaltrainAlert {
 export interface TrainDelay {
   trainNumber: string;
   delayMinutes: number;
-  source: 'caltrain-alerts';
+  source: 'caltrain-alerts' | 'twitter';
 }
 
 /**
@@ -25,128 +29,66 @@ export interface TrainDelay {
  * - "Expect 30-60 Minute Delay For All Trains Near San Jose Diridon"
  * - "All northbound trains delayed 45 minutes"
  * - "Delays of 20-30 minutes for all trains"
+ * - "Systemwide delays of 20 minutes between Millbrae and San Bruno"
  */
-function parseSystemWideDelay(alertText: string): { delayMinutes: number; location?: string; direction?: 'northbound' | 'southbound' | 'both' } | null {
-  const lowerText = alertText.toLowerCase();
-
-  // Check if this is a system-wide delay (mentions "all trains")
-  if (!lowerText.includes('all trains') && !lowerText.includes('all northbound') && !lowerText.includes('all southbound')) {
+function parseSystemWideDelay(parsed: ParsedAlertText): { delayMinutes: number; location?: string; direction?: 'northbound' | 'southbound' | 'both' } | null {
+  // Only "all trains" or "systemwide" wording applies to every train (near the location, if one is given)
+  // Station or facility notices that name no train stay local
+  if (!parsed.delayMinutes || !parsed.allTrains) {
     return null;
   }
 
-  // Extract delay duration
-  // Pattern: "X-Y minute delay" or "X minute delay"
-  const delayMatch = alertText.match(/(\d+)(?:-(\d+))?\s*minute\s*delay/i);
-  if (!delayMatch) {
-    return null;
-  }
-
-  const minDelay = parseInt(delayMatch[1]);
-  const maxDelay = delayMatch[2] ? parseInt(delayMatch[2]) : minDelay;
-
-  // Extract location if mentioned
-  let location: string | undefined;
-  const locationMatch = alertText.match(/(?:near|at|around)\s+([A-Za-z\s]+?)(?:\.|$|,)/i);
-  if (locationMatch) {
-    location = locationMatch[1].trim();
-  }
-
-  // Extract direction
-  let direction: 'northbound' | 'southbound' | 'both' = 'both';
-  if (lowerText.includes('northbound')) {
-    direction = 'northbound';
-  } else if (lowerText.includes('southbound')) {
-    direction = 'southbound';
-  }
+  const locationId = parsed.locationStationId || parsed.segment?.[0];
 
   return {
-    delayMinutes: maxDelay, // Use max delay for conservative estimates
-    location,
-    direction
+    delayMinutes: parsed.delayMinutes.max, // Use max delay for conservative estimates
+    location: locationId ? getStationById(locationId)?.name : undefined,
+    direction: parsed.direction || 'both'
   };
 }
 
 /**
  * Parse train delay information from alert text
  * Examples:
- * - "Train 167 Will Run Ahead of Train 165"
  * - "Please Expect Up To 40-45 Minute Delay for Train 165"
  * - "Train 123 is delayed by 15 minutes"
+ * - "Trains 123, 125 and 127 delayed 10-15 min"
+ * Trains running ahead of a delayed train ("Train 167 Will Run Ahead of Train 165") are not delayed.
  */
-function parseAlertForTrainDelay(alertText: string): TrainDelay | null {
-  // Pattern 1: "Please Expect Up To X-Y Minute Delay for Train NNN"
-  const delayPattern1 = /(?:expect|up to)\s+(?:up to\s+)?(\d+)(?:-(\d+))?\s*minute\s*delay\s+for\s+train\s+(\d+)/i;
-  const match1 = alertText.match(delayPattern1);
-
-  if (match1) {
-    const minDelay = parseInt(match1[1]);
-    const maxDelay = match1[2] ? parseInt(match1[2]) : minDelay;
-    const trainNumber = match1[3];
-
-    // Use the maximum delay value for conservative estimates
-    return {
-      trainNumber,
-      delayMinutes: maxDelay,
-      source: 'caltrain-alerts'
-    };
-  }
-
-  // Pattern 2: "Train NNN is delayed by X minutes"
-  const delayPattern2 = /train\s+(\d+)\s+is\s+delayed\s+by\s+(\d+)\s*minutes?/i;
-  const match2 = alertText.match(delayPattern2);
-
-  if (match2) {
-    return {
-      trainNumber: match2[1],
-      delayMinutes: parseInt(match2[2]),
-      source: 'caltrain-alerts'
-    };
-  }
-
-  // Pattern 3: "Train NNN: X minute delay"
-  const delayPattern3 = /train\s+(\d+):\s*(\d+)\s*minute\s*delay/i;
-  const match3 = alertText.match(delayPattern3);
-
-  if (match3) {
-    return {
-      trainNumber: match3[1],
-      delayMinutes: parseInt(match3[2]),
-      source: 'caltrain-alerts'
-    };
+function parseAlertForTrainDelays(parsed: ParsedAlertText): TrainDelay[] {
+  if (!parsed.delayMinutes || parsed.allTrains) {
+    return [];
   }
 
-  return null;
+  return parsed.trainNumbers
+    .filter(trainNumber => !parsed.runningAhead?.includes(trainNumber))
+    .map(trainNumber => ({
+      trainNumber,
+      delayMinutes: parsed.delayMinutes!.max, // Use the maximum delay value for conservative estimates
+      source: 'caltrain-alerts' as const
+    }));
 }
 
 /**
  * Categorize alert type based on text content
  */
-function categorizeAlert(alertText: string): CaltrainAlert['type'] {
+function categorizeAlert(alertText: string, parsed: ParsedAlertText): CaltrainAlert['type'] {
   const lowerText = alertText.toLowerCase();
 
-  if (lowerText.includes('elevator')) return 'elevator';
-  if (lowerText.includes('cancel')) return 'cancellation';
-  if (lowerText.includes('run ahead') || lowerText.includes('running ahead')) return 'running-ahead';
-  if (lowerText.includes('delay')) return 'delay';
+  // Station facility notices (elevators and escalators)
+  if (lowerText.includes('elevator') || lowerText.includes('escalator')) return 'elevator';
 
-  return 'general';
+  return parsed.kind;
 }
 
 /**
- * Determine severity based on alert type and content
+ * Determine severity based on alert type and delay length
  */
-function determineSeverity(alertText: string, type: CaltrainAlert['type']): CaltrainAlert['severity'] {
-  const lowerText = alertText.toLowerCase();
-
-  if (type === 'cancellation') return 'critical';
-  if (type === 'delay') {
-    // Check if delay is significant (30+ minutes)
-    const delayMatch = alertText.match(/(\d+)(?:-(\d+))?\s*minute/i);
-    if (delayMatch) {
-      const maxDelay = delayMatch[2] ? parseInt(delayMatch[2]) : parseInt(delayMatch[1]);
-      if (maxDelay >= 30) return 'critical';
-      if (maxDelay >= 10) return 'warning';
-    }
+function determineSeverity(type: CaltrainAlert['type'], delayMinutes?: number): CaltrainAlert['severity'] {
+  if (type === 'cancellation' || type === 'bus-bridge') return 'critical';
+  if (type === 'delay' || type === 'single-tracking') {
+    // Significant delays (30+ minutes) are critical
+    if (delayMinutes && delayMinutes >= 30) return 'critical';
     return 'warning';
   }
   if (type === 'elevator') return 'info';
@@ -158,27 +100,25 @@ function determineSeverity(alertText: string, type: CaltrainAlert['type']): Calt
  * Parse alert text to extract structured information
  */
 function parseAlert(alertText: string): CaltrainAlert {
-  const type = categorizeAlert(alertText);
-  const severity = determineSeverity(alertText, type);
-
-  // Extract train number if mentioned
-  const trainMatch = alertText.match(/train\s+(\d+)/i);
-  const trainNumber = trainMatch ? trainMatch[1] : undefined;
+  const parsed = parseAlertText(alertText);
+  const type = categorizeAlert(alertText, parsed);
 
   // Extract delay information (train-specific)
-  const delayInfo = parseAlertForTrainDelay(alertText);
-  const delayMinutes = delayInfo?.delayMinutes;
+  const trainDelays = parseAlertForTrainDelays(parsed);
 
   // Check for system-wide delays
-  const systemWideInfo = parseSystemWideDelay(alertText);
+  const systemWideInfo = parseSystemWideDelay(parsed);
   const isSystemWide = !!systemWideInfo;
 
+  const delayMinutes = trainDelays[0]?.delayMinutes || systemWideInfo?.delayMinutes;
+
   return {
-    trainNumber,
-    delayMinutes: delayMinutes || systemWideInfo?.delayMinutes,
+    trainNumber: parsed.trainNumbers[0],
+    trainNumbers: parsed.trainNumbers.length > 0 ? parsed.trainNumbers : undefined,
+    delayMinutes,
     alertText: alertText.trim(),
     type,
-    severity,
+    severity: determineSeverity(type, delayMinutes),
     isSystemWide,
     affectedLocation: systemWideInfo?.location,
     affectedDirection: systemWideInfo?.direction
@@ -190,6 +130,7 @@ function parseAlert(alertText: string): CaltrainAlert {
  *
  * The alerts are loaded dynamically via JavaScript, so we use a headless browser
  * to execute the page's JavaScript and extract the alert text.
+ * Throws when the page can't be scraped, so a failed scrape isn't mistaken for no alerts.
  */
 export async function fetchCaltrainAlerts(): Promise<CaltrainAlert[]> {
   try {
@@ -269,7 +210,7 @@ export async function fetchCaltrainAlerts(): Promise<CaltrainAlert[]> {
     return parsedAlerts;
   } catch (error) {
     console.error('Error scraping Caltrain alerts:', error);
-    return [];
+    throw error;
   }
 }
 
@@ -281,8 +222,7 @@ export function extractTrainDelays(alerts: CaltrainAlert[]): Map<string, TrainDe
   const delays = new Map<string, TrainDelay>();
 
   for (const alert of alerts) {
-    const delayInfo = parseAlertForTrainDelay(alert.alertText);
-    if (delayInfo) {
+    for (const delayInfo of parseAlertForTrainDelays(parseAlertText(alert.alertText))) {
       // Only keep the maximum delay for each train if multiple alerts exist
       const existing = delays.get(delayInfo.trainNumber);
       if (!existing || delayInfo.delayMinutes > existing.delayMinutes) {
@@ -0,0 +1,223 @@
+// Historical Delay Recorder
+// Persists observed delays per train, station and service date as append-only JSON Lines files
+// Observations are sampled from real-time polls, which only run while someone is using the app,
+// so days (or hours) nobody had it open are missing from the history
+
+import { DelayStats, TrainReliability } from './types';
+import { stations } from './stations';
+import { getPacificDateString } from './pacific-time';
+
+export interface DelayObservation {
+  serviceDate: string; // YYYY-MM-DD
+  trainNumber: string;
+  tripId: string;
+  stationId: string;
+  direction: 'Northbound' | 'Southbound';
+  scheduledTime: string; // HH:MM scheduled departure at the station (GTFS time, may exceed 24:00)
+  delay: number; // departure delay in minutes (positive = late, negative = early)
+  arrivalDelay?: number; // arrival delay in minutes (missing from records written before it was kept)
+  cancelled?: boolean; // Trip cancelled or the stop was skipped
+  observedAt: string; // ISO timestamp of the poll
+}
+
+// Caltrain counts a train as on time if it arrives within 5 minutes of schedule
+export const ON_TIME_THRESHOLD_MINUTES = 5;
+
+const DEFAULT_HISTORY_DIR = 'data/delay-history';
+
+// Last value written per service date, then train/station, so unchanged polls don't grow the files
+const lastRecorded = new Map<string, Map<string, string>>();
+
+function observationKey(observation: DelayObservation): string {
+  return `${observation.serviceDate}|${observation.tripId}|${observation.stationId}`;
+}
+
+function recordedValue(observation: DelayObservation): string {
+  return `${observation.delay}|${observation.arrivalDelay ?? ''}|${observation.cancelled ? 1 : 0}`;
+}
+
+/**
+ * Forget service dates before the day preceding the newest one
+ * Trips after midnight still run on the previous service date, so that day is kept.
+ */
+function pruneRecordedDates(): void {
+  const newest = [...lastRecorded.keys()].sort().pop();
+  if (!newest) return;
+
+  const [year, month, day] = newest.split('-').map((part) => parseInt(part));
+  const previous = new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+  for (const serviceDate of lastRecorded.keys()) {
+    if (serviceDate < previous) lastRecorded.delete(serviceDate);
+  }
+}
+
+async function getHistoryDir(): Promise<string> {
+  const path = await import('path');
+  return path.resolve(process.cwd(), process.env.DELAY_HISTORY_DIR || DEFAULT_HISTORY_DIR);
+}
+
+/**
+ * Append observations whose delay changed since the last poll
+ * One file per service date: <history dir>/YYYY-MM-DD.jsonl
+ *
+ * @returns Number of observations written
+ */
+export async function recordDelayObservations(observations: DelayObservation[]): Promise<number> {
+  const changed = observations.filter((observation) => {
+    const recorded = lastRecorded.get(observation.serviceDate);
+    return recorded?.get(observationKey(observation)) !== recordedValue(observation);
+  });
+
+  if (changed.length === 0) return 0;
+
+  try {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const dir = await getHistoryDir();
+    await fs.mkdir(dir, { recursive: true });
+
+    const byDate = new Map<string, DelayObservation[]>();
+    for (const observation of changed) {
+      const list = byDate.get(observation.serviceDate) || [];
+      list.push(observation);
+      byDate.set(observation.serviceDate, list);
+    }
+
+    for (const [serviceDate, list] of byDate) {
+      const lines = list.map((observation) => JSON.stringify(observation)).join('\n') + '\n';
+      await fs.appendFile(path.join(dir, `${serviceDate}.jsonl`), lines, 'utf8');
+    }
+
+    for (const observation of changed) {
+      const recorded = lastRecorded.get(observation.serviceDate) || new Map<string, string>();
+      recorded.set(observationKey(observation), recordedValue(observation));
+      lastRecorded.set(observation.serviceDate, recorded);
+    }
+    pruneRecordedDates();
+
+    return changed.length;
+  } catch (error) {
+    // Read-only filesystems (e.g. serverless) simply don't keep history
+    console.error('Error recording delay history:', error);
+    return 0;
+  }
+}
+
+/**
+ * Read the final observed delay per train, station and service date
+ *
+ * @param days - Number of service days to read, ending with endDate
+ * @param endDate - Last day to include (defaults to today)
+ */
+export async function readDelayHistory(days: number, endDate: Date = new Date()): Promise<DelayObservation[]> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const dir = await getHistoryDir();
+
+  const [year, month, day] = getPacificDateString(endDate).split('-').map((part) => parseInt(part));
+  const latest = new Map<string, DelayObservation>();
+
+  for (let i = 0; i < days; i++) {
+    const serviceDate = new Date(Date.UTC(year, month - 1, day - i)).toISOString().slice(0, 10);
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(path.join(dir, `${serviceDate}.jsonl`), 'utf8');
+    } catch {
+      continue; // No observations recorded that day
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const observation = JSON.parse(line) as DelayObservation;
+        // Lines are appended in poll order, so the last one wins
+        latest.set(observationKey(observation), observation);
+      } catch {
+        console.warn(`Skipping malformed delay history line in ${serviceDate}.jsonl`);
+      }
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+/**
+ * Summarize one train's daily delays at a station
+ *
+ * @param delayOf - Which delay to summarize (departure by default)
+ */
+export function summarizeDelays(
+  observations: DelayObservation[],
+  delayOf: (observation: DelayObservation) => number = (o) => o.delay
+): DelayStats | null {
+  if (observations.length === 0) return null;
+
+  const ran = observations.filter((o) => !o.cancelled);
+  const delays = ran.map(delayOf).sort((a, b) => a - b);
+  const onTime = delays.filter((delay) => delay <= ON_TIME_THRESHOLD_MINUTES).length;
+
+  return {
+    observedDays: observations.length,
+    cancelledDays: observations.length - ran.length,
+    // Cancellations count against on-time performance
+    onTimePercentage: Math.round((onTime / observations.length) * 100),
+    typicalDelay: delays.length > 0 ? delays[Math.floor((delays.length - 1) / 2)] : 0,
+    averageDelay: delays.length > 0
+      ? Math.round((delays.reduce((sum, delay) => sum + delay, 0) / delays.length) * 10) / 10
+      : 0,
+    worstDelay: delays.length > 0 ? delays[delays.length - 1] : 0,
+  };
+}
+
+/**
+ * On-time performance per train for a trip between two stations
+ * Departure stats come from the origin, arrival stats from the destination
+ *
+ * @returns Trains that have history at the origin, ordered by scheduled departure
+ */
+export function buildReliabilityReport(
+  observations: DelayObservation[],
+  originStationId: string,
+  destinationStationId: string
+): TrainReliability[] {
+  const originIndex = stations.findIndex((s) => s.id === originStationId);
+  const destinationIndex = stations.findIndex((s) => s.id === destinationStationId);
+  // Stations are listed north to south
+  const direction = destinationIndex < originIndex ? 'Northbound' : 'Southbound';
+
+  const byTrain = new Map<string, { origin: DelayObservation[]; destination: DelayObservation[] }>();
+  for (const observation of observations) {
+    if (observation.direction !== direction) continue;
+
+    const atOrigin = observation.stationId === originStationId;
+    const atDestination = observation.stationId === destinationStationId;
+    if (!atOrigin && !atDestination) continue;
+
+    const entry = byTrain.get(observation.trainNumber) || { origin: [], destination: [] };
+    (atOrigin ? entry.origin : entry.destination).push(observation);
+    byTrain.set(observation.trainNumber, entry);
+  }
+
+  const report: TrainReliability[] = [];
+  for (const [trainNumber, entry] of byTrain) {
+    if (entry.origin.length === 0) continue;
+
+    // Timetables change over time - show the most recently observed departure
+    const latest = entry.origin.reduce((a, b) => (b.serviceDate > a.serviceDate ? b : a));
+
+    report.push({
+      trainNumber,
+      direction,
+      scheduledDeparture: latest.scheduledTime,
+      departure: summarizeDelays(entry.origin),
+      // Older records only hold the departure delay, which isn't an arrival time
+      arrival: summarizeDelays(
+        entry.destination.filter((o) => o.cancelled || o.arrivalDelay !== undefined),
+        (o) => o.arrivalDelay ?? 0
+      ),
+    });
+  }
+
+  return report.sort((a, b) => a.scheduledDeparture.localeCompare(b.scheduledDeparture));
+}
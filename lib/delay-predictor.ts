@@ -0,0 +1,128 @@
+// Delay Predictor
+// Forecasts delays for trains the real-time feed doesn't cover yet, from recorded history and
+// delays on earlier trains along the line. System-wide alerts aren't an input: every train they
+// cover already gets them as a live delay (see applyRealtimeDelays), and those trains aren't forecast.
+
+import { DelayPrediction, Train } from './types';
+import { DelayObservation } from './delay-history';
+
+// Eight weeks gives up to eight samples of the same train on the same weekday
+export const PREDICTION_HISTORY_DAYS = 56;
+
+// Fewer days than this say more about one bad day than about the train
+const MIN_HISTORY_DAYS = 3;
+
+// A delayed train stops affecting the ones behind it beyond this headway
+const UPSTREAM_HORIZON_MINUTES = 90;
+
+export interface PredictionInputs {
+  history: number[]; // Final daily delays (minutes) of this train at the station on the same weekday
+  upstream?: { delay: number; headwayMinutes: number }; // Nearest earlier train on the line with live data
+}
+
+export interface PredictionContext {
+  originStationId: string;
+  serviceDate: string; // YYYY-MM-DD
+  history: DelayObservation[];
+  lineDelays: { departureTime: string; delay: number }[]; // Earlier trains with live data (scheduled ISO departure)
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)))];
+}
+
+/**
+ * Combine the available evidence into an expected delay with a likely range
+ *
+ * @returns null when there is nothing to base a forecast on
+ */
+export function predictDelay(inputs: PredictionInputs): DelayPrediction | null {
+  const estimates: { delay: number; low: number; high: number; weight: number; basis: DelayPrediction['basis'][number] }[] = [];
+
+  if (inputs.history.length >= MIN_HISTORY_DAYS) {
+    const sorted = [...inputs.history].sort((a, b) => a - b);
+    estimates.push({
+      delay: percentile(sorted, 0.5),
+      low: percentile(sorted, 0.1),
+      high: percentile(sorted, 0.9),
+      // Trust grows with the number of days, up to the full eight weeks
+      weight: Math.min(sorted.length, 8) / 8,
+      basis: 'history',
+    });
+  }
+
+  const upstream = inputs.upstream;
+  if (upstream && upstream.delay > 0 && upstream.headwayMinutes < UPSTREAM_HORIZON_MINUTES) {
+    // Delays carry over to closely following trains and fade with headway
+    const carryOver = 1 - upstream.headwayMinutes / UPSTREAM_HORIZON_MINUTES;
+    estimates.push({
+      delay: upstream.delay * carryOver,
+      low: 0,
+      high: upstream.delay,
+      weight: 1.5 * carryOver,
+      basis: 'upstream',
+    });
+  }
+
+  if (estimates.length === 0) return null;
+
+  const totalWeight = estimates.reduce((sum, e) => sum + e.weight, 0);
+  const weighted = (key: 'delay' | 'low' | 'high') =>
+    Math.round(estimates.reduce((sum, e) => sum + e[key] * e.weight, 0) / totalWeight);
+
+  const expectedDelay = weighted('delay');
+  const low = Math.min(weighted('low'), expectedDelay);
+  const high = Math.max(weighted('high'), expectedDelay);
+
+  let confidence: DelayPrediction['confidence'] = 'low';
+  if (estimates.length >= 2 && high - low <= 10) {
+    confidence = 'high';
+  } else if (estimates.length >= 2 || inputs.history.length >= 8) {
+    confidence = 'medium';
+  }
+
+  return { expectedDelay, low, high, confidence, basis: estimates.map((e) => e.basis) };
+}
+
+/**
+ * Final daily delays of a train at a station on the same weekday as the service date
+ * Cancelled days are left out - they say nothing about how late the train runs
+ */
+export function getSameWeekdayDelays(
+  history: DelayObservation[],
+  trainNumber: string,
+  stationId: string,
+  serviceDate: string
+): number[] {
+  const weekday = (date: string) => new Date(`${date}T12:00:00Z`).getUTCDay();
+  const targetWeekday = weekday(serviceDate);
+
+  return history
+    .filter((o) =>
+      o.trainNumber === trainNumber &&
+      o.stationId === stationId &&
+      o.serviceDate !== serviceDate &&
+      !o.cancelled &&
+      weekday(o.serviceDate) === targetWeekday
+    )
+    .map((o) => o.delay);
+}
+
+/**
+ * Forecast the delay of a train at the origin
+ */
+export function predictTrainDelay(train: Train, context: PredictionContext): DelayPrediction | null {
+  const departureMs = new Date(train.departureTime).getTime();
+
+  // Closest earlier train on the same line that the real-time feed knows about
+  const upstream = context.lineDelays
+    .filter((line) => new Date(line.departureTime).getTime() < departureMs)
+    .sort((a, b) => new Date(b.departureTime).getTime() - new Date(a.departureTime).getTime())[0];
+
+  return predictDelay({
+    history: getSameWeekdayDelays(context.history, train.trainNumber, context.originStationId, context.serviceDate),
+    upstream: upstream
+      ? { delay: upstream.delay, headwayMinutes: (departureMs - new Date(upstream.departureTime).getTime()) / 60000 }
+      : undefined,
+  });
+}
@@ -0,0 +1,91 @@
+// Station Facility Outages
+// Turns elevator and escalator notices from Caltrain.com and 511.org into per-station records
+
+import { FacilityOutage } from './types';
+import { Alert } from './gtfs-realtime';
+import { CaltrainAlert } from './caltrain-alerts-scraper';
+import { findStationByText } from './stations';
+
+/**
+ * Parse a facility notice such as "Elevator: Bayshore Northbound is out of service"
+ *
+ * @param fallbackStationId - Station to use when the text doesn't name one (e.g. from the alert's stop)
+ * @returns Structured outage, or null when the text isn't a facility status notice
+ */
+export function parseFacilityOutage(
+  text: string,
+  source: FacilityOutage['source'],
+  fallbackStationId?: string
+): FacilityOutage | null {
+  const facilityMatch = text.match(/\b(elevator|escalator)s?\b/i);
+  if (!facilityMatch) return null;
+
+  // "Out of service" wins over "restored" so "service will be restored Friday" stays an outage
+  let status: FacilityOutage['status'];
+  if (/out of service|not (?:in service|working|available)|unavailable|closed|broken/i.test(text)) {
+    status = 'out-of-service';
+  } else if (/back in service|returned to service|restored|(?:now|again) (?:in service|working|operational|open)/i.test(text)) {
+    status = 'restored';
+  } else {
+    return null;
+  }
+
+  // Drop facility and direction words so they aren't read as part of a station name
+  const place = text.replace(/\b(?:elevators?|escalators?|(?:north|south)bound|platform|[NS]B)\b/gi, ' ');
+  const stationId = findStationByText(place)?.id || fallbackStationId;
+  if (!stationId) return null;
+
+  const directionMatch = text.match(/\b(north|south)bound\b|\b([NS])B\b/i);
+  const direction = directionMatch
+    ? (directionMatch[1] || directionMatch[2]).toLowerCase().startsWith('n') ? 'northbound' : 'southbound'
+    : undefined;
+
+  return {
+    stationId,
+    facility: facilityMatch[1].toLowerCase() as FacilityOutage['facility'],
+    direction,
+    status,
+    text: text.trim(),
+    source,
+  };
+}
+
+/**
+ * Collect facility notices from both alert sources, one record per station facility
+ * 511.org records come first and win over Caltrain.com reports of the same facility.
+ *
+ * @param stationIdForStop - Maps a GTFS stop_id to an app station id
+ */
+export function collectFacilityOutages(
+  feedAlerts: Alert[],
+  caltrainAlerts: CaltrainAlert[],
+  stationIdForStop: (stopId: string) => string | undefined = () => undefined
+): FacilityOutage[] {
+  const parsed: FacilityOutage[] = [];
+
+  for (const alert of feedAlerts) {
+    const stopId = alert.informedEntities.find((entity) => entity.stopId)?.stopId;
+    const outage = parseFacilityOutage(
+      `${alert.headerText}. ${alert.descriptionText}`,
+      '511',
+      stopId ? stationIdForStop(stopId) : undefined
+    );
+    if (outage) parsed.push(outage);
+  }
+
+  for (const alert of caltrainAlerts) {
+    if (alert.type !== 'elevator') continue;
+    const outage = parseFacilityOutage(alert.alertText, 'caltrain.com');
+    if (outage) parsed.push(outage);
+  }
+
+  const outages = new Map<string, FacilityOutage>();
+  for (const outage of parsed) {
+    const key = `${outage.stationId}|${outage.facility}|${outage.direction || ''}`;
+    if (!outages.has(key)) {
+      outages.set(key, outage);
+    }
+  }
+
+  return [...outages.values()];
+}
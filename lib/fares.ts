@@ -0,0 +1,117 @@
+// Caltrain Fare Calculation
+// Zone-based fares from GTFS fare_rules, fare_attributes, fare_rider_categories and farezone_attributes
+
+import { FarePrice, FareQuote } from './types';
+
+export interface GTFSFareAttribute {
+  fare_id: string;
+  price: string;
+  currency_type: string;
+  payment_method: string; // 0 = paid on board, 1 = paid before boarding
+  transfers: string;
+  transfer_duration: string;
+}
+
+export interface GTFSFareRule {
+  fare_id: string;
+  route_id: string;
+  origin_id: string;
+  destination_id: string;
+  contains_id: string;
+}
+
+export interface GTFSFareRiderCategory {
+  fare_id: string;
+  rider_category_id: string;
+  price: string;
+}
+
+export interface GTFSFareZone {
+  zone_id: string;
+  zone_name: string; // e.g. "Zone 3-Menlo Park to Sunnyvale"
+}
+
+export interface GTFSRiderCategory {
+  rider_category_id: string;
+  rider_category_description: string;
+  rider_category_name: string;
+  is_default_fare_category: string;
+}
+
+export interface FareTables {
+  attributes: GTFSFareAttribute[];
+  rules: GTFSFareRule[];
+  riderCategoryPrices: GTFSFareRiderCategory[];
+  zones: GTFSFareZone[];
+  riderCategories: GTFSRiderCategory[];
+}
+
+// The feed's fare_attributes price is the full adult fare
+export const DEFAULT_FARE_CATEGORY = 'adult';
+
+/**
+ * Turn a rider category name into a stable query value
+ * e.g. "Medicare Cardholder" -> "medicare-cardholder"
+ */
+function toCategoryId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Get the zone number (1-6) from a farezone_attributes zone_name
+ */
+export function getZoneNumber(tables: FareTables, zoneId: string): number | null {
+  const zone = tables.zones.find((z) => z.zone_id === zoneId);
+  const match = zone?.zone_name.match(/zone\s*(\d+)/i);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Calculate the one-way fare between two fare zones
+ *
+ * @param tables - Parsed GTFS fare tables
+ * @param originZoneId - zone_id of the origin platform (from stops.txt)
+ * @param destinationZoneId - zone_id of the destination platform
+ * @returns Zone count and prices per rider category, or null if no fare rule matches
+ */
+export function calculateFare(
+  tables: FareTables,
+  originZoneId: string,
+  destinationZoneId: string
+): FareQuote | null {
+  const rule = tables.rules.find(
+    (r) => r.origin_id === originZoneId && r.destination_id === destinationZoneId
+  );
+  if (!rule) return null;
+
+  const attribute = tables.attributes.find((a) => a.fare_id === rule.fare_id);
+  if (!attribute) return null;
+
+  const originZone = getZoneNumber(tables, originZoneId);
+  const destinationZone = getZoneNumber(tables, destinationZoneId);
+  if (originZone === null || destinationZone === null) return null;
+
+  const prices: FarePrice[] = [{ category: DEFAULT_FARE_CATEGORY, name: 'Adult', price: parseFloat(attribute.price) }];
+
+  for (const riderCategory of tables.riderCategories) {
+    const categoryPrice = tables.riderCategoryPrices.find(
+      (p) => p.fare_id === rule.fare_id && p.rider_category_id === riderCategory.rider_category_id
+    );
+    if (!categoryPrice) continue;
+
+    prices.push({
+      category: toCategoryId(riderCategory.rider_category_name),
+      name: riderCategory.rider_category_name,
+      price: parseFloat(categoryPrice.price),
+    });
+  }
+
+  return {
+    fareId: rule.fare_id,
+    originZone,
+    destinationZone,
+    zones: Math.abs(destinationZone - originZone) + 1,
+    currency: attribute.currency_type || 'USD',
+    prices,
+  };
+}
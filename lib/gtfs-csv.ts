@@ -0,0 +1,161 @@
+// GTFS Table Reader
+// Streams GTFS .txt files through csv-parse (RFC 4180 quoting, BOM and CRLF handling)
+// and maps each row onto a typed schema per file
+
+import { parse } from 'csv-parse';
+import { Readable } from 'stream';
+import { GTFSStop } from './gtfs-stations';
+import { GTFSStopTime, GTFSTrip, GTFSRoute, GTFSCalendar, GTFSCalendarDate } from './gtfs-store';
+import {
+  GTFSFareAttribute,
+  GTFSFareRule,
+  GTFSFareRiderCategory,
+  GTFSFareZone,
+  GTFSRiderCategory,
+} from './fares';
+import { GTFSTransfer } from './trip-planner';
+import { GTFSShapePoint } from './gtfs-shapes';
+
+interface GTFSTableSchema<T> {
+  file: string;
+  required: Array<keyof T & string>;
+  optional: Array<keyof T & string>;
+  convert?: (row: T) => T;
+}
+
+function defineTable<T>(schema: GTFSTableSchema<T>): GTFSTableSchema<T> {
+  return schema;
+}
+
+// Column schemas for each GTFS file the app reads
+// Required columns must be present in the header; optional columns default to ''
+export const GTFS_TABLES = {
+  stops: defineTable<GTFSStop>({
+    file: 'stops.txt',
+    required: ['stop_id', 'stop_name'],
+    optional: ['stop_code', 'platform_code', 'stop_lat', 'stop_lon', 'zone_id', 'location_type', 'parent_station', 'wheelchair_boarding'],
+  }),
+  stopTimes: defineTable<GTFSStopTime>({
+    file: 'stop_times.txt',
+    required: ['trip_id', 'stop_id', 'stop_sequence'],
+    optional: ['arrival_time', 'departure_time'],
+    convert: (row) => ({ ...row, stop_sequence: Number(row.stop_sequence) }),
+  }),
+  trips: defineTable<GTFSTrip>({
+    file: 'trips.txt',
+    required: ['route_id', 'service_id', 'trip_id'],
+    optional: ['trip_short_name', 'trip_headsign', 'direction_id', 'shape_id'],
+  }),
+  routes: defineTable<GTFSRoute>({
+    file: 'routes.txt',
+    required: ['route_id'],
+    optional: ['route_short_name', 'route_long_name', 'route_color', 'route_text_color'],
+  }),
+  calendar: defineTable<GTFSCalendar>({
+    file: 'calendar.txt',
+    required: ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+    optional: [],
+  }),
+  calendarDates: defineTable<GTFSCalendarDate>({
+    file: 'calendar_dates.txt',
+    required: ['service_id', 'date', 'exception_type'],
+    optional: [],
+  }),
+  shapes: defineTable<GTFSShapePoint>({
+    file: 'shapes.txt',
+    required: ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+    optional: [],
+    convert: (row) => ({ ...row, shape_pt_sequence: Number(row.shape_pt_sequence) }),
+  }),
+  transfers: defineTable<GTFSTransfer>({
+    file: 'transfers.txt',
+    required: ['from_stop_id', 'to_stop_id', 'transfer_type'],
+    optional: ['min_transfer_time'],
+  }),
+  fareAttributes: defineTable<GTFSFareAttribute>({
+    file: 'fare_attributes.txt',
+    required: ['fare_id', 'price', 'currency_type'],
+    optional: ['payment_method', 'transfers', 'transfer_duration'],
+  }),
+  fareRules: defineTable<GTFSFareRule>({
+    file: 'fare_rules.txt',
+    required: ['fare_id'],
+    optional: ['route_id', 'origin_id', 'destination_id', 'contains_id'],
+  }),
+  fareRiderCategories: defineTable<GTFSFareRiderCategory>({
+    file: 'fare_rider_categories.txt',
+    required: ['fare_id', 'rider_category_id', 'price'],
+    optional: [],
+  }),
+  fareZones: defineTable<GTFSFareZone>({
+    file: 'farezone_attributes.txt',
+    required: ['zone_id'],
+    optional: ['zone_name'],
+  }),
+  riderCategories: defineTable<GTFSRiderCategory>({
+    file: 'rider_categories.txt',
+    required: ['rider_category_id'],
+    optional: ['rider_category_description', 'rider_category_name', 'is_default_fare_category'],
+  }),
+};
+
+export type GTFSTableName = keyof typeof GTFS_TABLES;
+export type GTFSRow<K extends GTFSTableName> =
+  (typeof GTFS_TABLES)[K] extends GTFSTableSchema<infer T> ? T : never;
+
+/**
+ * Stream typed rows from a GTFS table
+ *
+ * @param source - A readable stream or the raw file contents
+ * @param table - Which GTFS table the source contains (selects the schema)
+ * @throws Error if a required column is missing from the header
+ */
+export async function* streamGTFSTable<K extends GTFSTableName>(
+  source: Readable | Buffer | string,
+  table: K
+): AsyncGenerator<GTFSRow<K>> {
+  const schema = GTFS_TABLES[table] as unknown as GTFSTableSchema<GTFSRow<K>>;
+  const input = typeof source === 'string' || Buffer.isBuffer(source)
+    ? Readable.from([source])
+    : source;
+
+  const parser = input.pipe(
+    parse({
+      bom: true,
+      columns: (header: string[]) => {
+        const columns = header.map((h) => h.trim());
+        const missing = schema.required.filter((column) => !columns.includes(column));
+        if (missing.length > 0) {
+          throw new Error(`${schema.file} is missing required columns: ${missing.join(', ')}`);
+        }
+        return columns;
+      },
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    })
+  );
+
+  for await (const record of parser as AsyncIterable<Record<string, string>>) {
+    const row = {} as Record<string, string>;
+    for (const column of [...schema.required, ...schema.optional]) {
+      row[column] = record[column] ?? '';
+    }
+
+    yield schema.convert ? schema.convert(row as GTFSRow<K>) : (row as GTFSRow<K>);
+  }
+}
+
+/**
+ * Read every row of a GTFS table into memory
+ */
+export async function readGTFSTable<K extends GTFSTableName>(
+  source: Readable | Buffer | string,
+  table: K
+): Promise<GTFSRow<K>[]> {
+  const rows: GTFSRow<K>[] = [];
+  for await (const row of streamGTFSTable(source, table)) {
+    rows.push(row);
+  }
+  return rows;
+}
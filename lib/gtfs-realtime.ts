@@ -4,11 +4,18 @@ import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
 const CALTRAIN_AGENCY = 'CT';
 const API_BASE = 'http://api.511.org/transit';
 
+export type TripScheduleRelationship =
+  'SCHEDULED' | 'ADDED' | 'UNSCHEDULED' | 'CANCELED' | 'REPLACEMENT' | 'DUPLICATED';
+
+export type StopScheduleRelationship = 'SCHEDULED' | 'SKIPPED' | 'NO_DATA' | 'UNSCHEDULED';
+
 export interface TripUpdate {
   tripId: string;
   routeId: string;
+  directionId?: number;
   startDate: string;
   startTime: string;
+  scheduleRelationship: TripScheduleRelationship; // CANCELED = whole trip cancelled, ADDED = extra train
   stopTimeUpdates: StopTimeUpdate[];
 }
 
@@ -23,7 +30,22 @@ export interface StopTimeUpdate {
     delay: number; // in seconds
     time: number; // unix timestamp
   };
-  scheduleRelationship?: string;
+  scheduleRelationship?: StopScheduleRelationship; // SKIPPED = train won't stop here
+}
+
+export interface VehiclePosition {
+  vehicleId: string;
+  tripId: string;
+  routeId: string;
+  directionId?: number;
+  latitude: number;
+  longitude: number;
+  bearing?: number; // degrees clockwise from north
+  speed?: number; // meters per second
+  stopId?: string;
+  currentStopSequence?: number;
+  currentStatus?: 'INCOMING_AT' | 'STOPPED_AT' | 'IN_TRANSIT_TO';
+  timestamp: number; // unix timestamp
 }
 
 export interface Alert {
@@ -32,20 +54,103 @@ export interface Alert {
   headerText: string;
   descriptionText: string;
   url?: string;
+  cause?: string; // GTFS-RT Cause name, e.g. 'TECHNICAL_PROBLEM'
+  effect?: string; // GTFS-RT Effect name, e.g. 'SIGNIFICANT_DELAYS'
   activePeriods: Array<{
-    start: number;
-    end: number;
+    start: number; // unix timestamp, 0 = open-ended
+    end: number; // unix timestamp, 0 = open-ended
   }>;
   informedEntities: Array<{
     agencyId?: string;
     routeId?: string;
     routeType?: number;
     stopId?: string;
+    tripId?: string;
   }>;
 }
 
+export interface AlertFilter {
+  stopIds?: Set<string>; // Platform and parent stop_ids
+  tripIds?: string[]; // GTFS trip_ids or train numbers
+}
+
+/**
+ * Read an optional protobuf field, ignoring the prototype default (0) when it wasn't sent
+ */
+function optionalField<T extends object, K extends keyof T>(message: T, key: K): T[K] | undefined {
+  return Object.prototype.hasOwnProperty.call(message, key) ? message[key] : undefined;
+}
+
+/**
+ * Look up the name of a protobuf enum value (e.g. 3 -> 'CANCELED')
+ */
+function enumName<T extends string>(values: object, value: number | null | undefined): T | undefined {
+  if (value === null || value === undefined) return undefined;
+  return Object.entries(values).find(([, v]) => v === value)?.[0] as T | undefined;
+}
+
+function toUnixTime(time: number | { toNumber(): number } | null | undefined): number {
+  return typeof time === 'number' ? time : (time?.toNumber() || 0);
+}
+
+/**
+ * Decode a GTFS-Realtime trip updates feed
+ * Keeps trip and stop schedule_relationship so cancellations, skipped stops and added trains survive
+ */
+export function parseTripUpdates(buffer: Uint8Array): TripUpdate[] {
+  const realtime = GtfsRealtimeBindings.transit_realtime;
+  const feed = realtime.FeedMessage.decode(buffer);
+  const updates: TripUpdate[] = [];
+
+  for (const entity of feed.entity) {
+    if (entity.tripUpdate && entity.tripUpdate.trip) {
+      const trip = entity.tripUpdate.trip;
+      const stopTimeUpdates: StopTimeUpdate[] = [];
+
+      for (const stu of entity.tripUpdate.stopTimeUpdate || []) {
+        stopTimeUpdates.push({
+          stopId: stu.stopId || '',
+          stopSequence: stu.stopSequence || 0,
+          arrival: stu.arrival
+            ? {
+                delay: stu.arrival.delay || 0,
+                time: toUnixTime(stu.arrival.time),
+              }
+            : undefined,
+          departure: stu.departure
+            ? {
+                delay: stu.departure.delay || 0,
+                time: toUnixTime(stu.departure.time),
+              }
+            : undefined,
+          scheduleRelationship: enumName<StopScheduleRelationship>(
+            realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship,
+            optionalField(stu, 'scheduleRelationship')
+          ),
+        });
+      }
+
+      updates.push({
+        tripId: trip.tripId || '',
+        routeId: trip.routeId || '',
+        directionId: optionalField(trip, 'directionId') ?? undefined,
+        startDate: trip.startDate || '',
+        startTime: trip.startTime || '',
+        scheduleRelationship: enumName<TripScheduleRelationship>(
+          realtime.TripDescriptor.ScheduleRelationship,
+          trip.scheduleRelationship
+        ) || 'SCHEDULED',
+        stopTimeUpdates,
+      });
+    }
+  }
+
+  return updates;
+}
+
 /**
  * Fetch real-time trip updates from 511.org
+ * Throws when the feed can't be read, so an outage isn't mistaken for every train running on time.
  */
 export async function fetchTripUpdates(): Promise<TripUpdate[]> {
   const apiKey = process.env.TRANSIT_API_KEY;
@@ -65,60 +170,146 @@ export async function fetchTripUpdates(): Promise<TripUpdate[]> {
     }
 
     const buffer = await response.arrayBuffer();
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(
-      new Uint8Array(buffer)
-    );
+    return parseTripUpdates(new Uint8Array(buffer));
+  } catch (error) {
+    console.error('Error fetching trip updates:', error);
+    throw error;
+  }
+}
 
-    const updates: TripUpdate[] = [];
-
-    for (const entity of feed.entity) {
-      if (entity.tripUpdate && entity.tripUpdate.trip) {
-        const trip = entity.tripUpdate.trip;
-        const stopTimeUpdates: StopTimeUpdate[] = [];
-
-        for (const stu of entity.tripUpdate.stopTimeUpdate || []) {
-          stopTimeUpdates.push({
-            stopId: stu.stopId || '',
-            stopSequence: stu.stopSequence || 0,
-            arrival: stu.arrival
-              ? {
-                  delay: stu.arrival.delay || 0,
-                  time: typeof stu.arrival.time === 'number'
-                    ? stu.arrival.time
-                    : (stu.arrival.time?.toNumber() || 0),
-                }
-              : undefined,
-            departure: stu.departure
-              ? {
-                  delay: stu.departure.delay || 0,
-                  time: typeof stu.departure.time === 'number'
-                    ? stu.departure.time
-                    : (stu.departure.time?.toNumber() || 0),
-                }
-              : undefined,
-            scheduleRelationship: stu.scheduleRelationship?.toString(),
-          });
-        }
+/**
+ * Decode a GTFS-Realtime vehicle positions feed
+ * Entities without a position are skipped
+ */
+export function parseVehiclePositions(buffer: Uint8Array): VehiclePosition[] {
+  const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(buffer);
+  const vehicles: VehiclePosition[] = [];
+
+  for (const entity of feed.entity) {
+    const vehicle = entity.vehicle;
+    if (!vehicle || !vehicle.position) continue;
+
+    vehicles.push({
+      vehicleId: vehicle.vehicle?.id || vehicle.vehicle?.label || entity.id,
+      tripId: vehicle.trip?.tripId || '',
+      routeId: vehicle.trip?.routeId || '',
+      directionId: vehicle.trip ? optionalField(vehicle.trip, 'directionId') ?? undefined : undefined,
+      latitude: vehicle.position.latitude,
+      longitude: vehicle.position.longitude,
+      bearing: optionalField(vehicle.position, 'bearing') ?? undefined,
+      speed: optionalField(vehicle.position, 'speed') ?? undefined,
+      stopId: vehicle.stopId || undefined,
+      currentStopSequence: optionalField(vehicle, 'currentStopSequence') ?? undefined,
+      currentStatus: enumName<NonNullable<VehiclePosition['currentStatus']>>(
+        GtfsRealtimeBindings.transit_realtime.VehiclePosition.VehicleStopStatus,
+        optionalField(vehicle, 'currentStatus')
+      ),
+      timestamp: toUnixTime(vehicle.timestamp),
+    });
+  }
 
-        updates.push({
-          tripId: trip.tripId || '',
-          routeId: trip.routeId || '',
-          startDate: trip.startDate || '',
-          startTime: trip.startTime || '',
-          stopTimeUpdates,
-        });
-      }
+  return vehicles;
+}
+
+/**
+ * Fetch real-time vehicle positions from 511.org
+ * Throws when the feed can't be read.
+ */
+export async function fetchVehiclePositions(): Promise<VehiclePosition[]> {
+  const apiKey = process.env.TRANSIT_API_KEY;
+  if (!apiKey) {
+    console.warn('TRANSIT_API_KEY not configured');
+    return [];
+  }
+
+  try {
+    const url = `${API_BASE}/vehiclepositions?api_key=${apiKey}&agency=${CALTRAIN_AGENCY}`;
+    const response = await fetch(url, {
+      next: { revalidate: 15 }, // Cache for 15 seconds
+    });
+
+    if (!response.ok) {
+      throw new Error(`511.org API error: ${response.status}`);
     }
 
-    return updates;
+    const buffer = await response.arrayBuffer();
+    return parseVehiclePositions(new Uint8Array(buffer));
   } catch (error) {
-    console.error('Error fetching trip updates:', error);
-    return [];
+    console.error('Error fetching vehicle positions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pick the English text from a GTFS-RT TranslatedString, or the first one
+ */
+function translatedText(text: { translation?: Array<{ text?: string | null; language?: string | null }> | null } | null | undefined): string {
+  const translations = text?.translation || [];
+  const english = translations.find((t) => !t.language || t.language.toLowerCase().startsWith('en'));
+  return (english || translations[0])?.text || '';
+}
+
+/**
+ * Severity from the feed's severity_level, falling back to what the effect implies
+ */
+function alertSeverity(severityLevel: string | undefined, effect: string | undefined): 'info' | 'warning' | 'critical' {
+  if (severityLevel === 'SEVERE') return 'critical';
+  if (severityLevel === 'WARNING') return 'warning';
+  if (severityLevel === 'INFO') return 'info';
+
+  if (effect === 'NO_SERVICE') return 'critical';
+  if (effect && ['REDUCED_SERVICE', 'SIGNIFICANT_DELAYS', 'DETOUR', 'MODIFIED_SERVICE', 'STOP_MOVED'].includes(effect)) {
+    return 'warning';
+  }
+  return 'info';
+}
+
+/**
+ * Decode a GTFS-Realtime service alerts feed
+ * Keeps active periods, cause, effect and informed entities so alerts can be matched to stations and trips
+ */
+export function parseServiceAlerts(buffer: Uint8Array): Alert[] {
+  const realtime = GtfsRealtimeBindings.transit_realtime;
+  const feed = realtime.FeedMessage.decode(buffer);
+  const alerts: Alert[] = [];
+
+  for (const entity of feed.entity) {
+    const alert = entity.alert;
+    if (!alert) continue;
+
+    const cause = enumName<string>(realtime.Alert.Cause, optionalField(alert, 'cause'));
+    const effect = enumName<string>(realtime.Alert.Effect, optionalField(alert, 'effect'));
+    const severityLevel = enumName<string>(realtime.Alert.SeverityLevel, optionalField(alert, 'severityLevel'));
+
+    alerts.push({
+      id: entity.id,
+      severity: alertSeverity(severityLevel, effect),
+      headerText: translatedText(alert.headerText) || 'Service Alert',
+      descriptionText: translatedText(alert.descriptionText),
+      url: translatedText(alert.url) || undefined,
+      cause,
+      effect,
+      activePeriods: (alert.activePeriod || []).map((period) => ({
+        start: toUnixTime(period.start),
+        end: toUnixTime(period.end),
+      })),
+      informedEntities: (alert.informedEntity || []).map((informed) => ({
+        agencyId: informed.agencyId || undefined,
+        routeId: informed.routeId || undefined,
+        routeType: optionalField(informed, 'routeType') ?? undefined,
+        stopId: informed.stopId || undefined,
+        tripId: informed.trip?.tripId || undefined,
+      })),
+    });
   }
+
+  return alerts;
 }
 
 /**
  * Fetch service alerts from 511.org
+ * Reads the GTFS-RT protobuf feed; falls back to the SIRI-style JSON feed if that can't be read
+ * Throws when neither feed can be read, so an outage isn't mistaken for every alert clearing.
  */
 export async function fetchServiceAlerts(): Promise<Alert[]> {
   const apiKey = process.env.TRANSIT_API_KEY;
@@ -128,7 +319,7 @@ export async function fetchServiceAlerts(): Promise<Alert[]> {
   }
 
   try {
-    const url = `${API_BASE}/servicealerts?api_key=${apiKey}&agency=${CALTRAIN_AGENCY}&format=json`;
+    const url = `${API_BASE}/servicealerts?api_key=${apiKey}&agency=${CALTRAIN_AGENCY}`;
     const response = await fetch(url, {
       next: { revalidate: 300 }, // Cache for 5 minutes
     });
@@ -137,37 +328,54 @@ export async function fetchServiceAlerts(): Promise<Alert[]> {
       throw new Error(`511.org API error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const alerts: Alert[] = [];
-
-    // Parse JSON format service alerts
-    if (data.ServiceDelivery?.SituationExchangeDelivery?.Situations?.PtSituationElement) {
-      const situations = Array.isArray(data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement)
-        ? data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement
-        : [data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement];
-
-      for (const situation of situations) {
-        const severity = mapSeverity(situation.Severity);
-
-        alerts.push({
-          id: situation.SituationNumber || Math.random().toString(),
-          severity,
-          headerText: situation.Summary?.[0]?._ || 'Service Alert',
-          descriptionText: situation.Description?.[0]?._ || '',
-          url: situation.InfoLinks?.InfoLink?.[0]?.Uri || undefined,
-          activePeriods: [],
-          informedEntities: [],
-        });
-      }
-    }
-
-    return alerts;
+    const buffer = await response.arrayBuffer();
+    return parseServiceAlerts(new Uint8Array(buffer));
   } catch (error) {
-    console.error('Error fetching service alerts:', error);
-    return [];
+    console.error('Error fetching GTFS-RT service alerts, trying JSON feed:', error);
+    return fetchSiriServiceAlerts(apiKey);
   }
 }
 
+/**
+ * Fetch service alerts from 511.org's SIRI-style JSON feed (header, description and severity only)
+ */
+async function fetchSiriServiceAlerts(apiKey: string): Promise<Alert[]> {
+  const url = `${API_BASE}/servicealerts?api_key=${apiKey}&agency=${CALTRAIN_AGENCY}&format=json`;
+  const response = await fetch(url, {
+    next: { revalidate: 300 }, // Cache for 5 minutes
+  });
+
+  if (!response.ok) {
+    throw new Error(`511.org API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const alerts: Alert[] = [];
+
+  // Parse JSON format service alerts
+  if (data.ServiceDelivery?.SituationExchangeDelivery?.Situations?.PtSituationElement) {
+    const situations = Array.isArray(data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement)
+      ? data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement
+      : [data.ServiceDelivery.SituationExchangeDelivery.Situations.PtSituationElement];
+
+    for (const situation of situations) {
+      const severity = mapSeverity(situation.Severity);
+
+      alerts.push({
+        id: situation.SituationNumber || `siri-${situation.Summary?.[0]?._ || ''}`, // Stable across polls for the alert registry
+        severity,
+        headerText: situation.Summary?.[0]?._ || 'Service Alert',
+        descriptionText: situation.Description?.[0]?._ || '',
+        url: situation.InfoLinks?.InfoLink?.[0]?.Uri || undefined,
+        activePeriods: [],
+        informedEntities: [],
+      });
+    }
+  }
+
+  return alerts;
+}
+
 /**
  * Map 511.org severity to our app's severity levels
  */
@@ -180,6 +388,39 @@ function mapSeverity(severity: string | undefined): 'info' | 'warning' | 'critic
   return 'info';
 }
 
+/**
+ * Whether an alert is in effect at a given time (alerts without periods always are)
+ */
+export function isAlertActive(alert: Alert, now: Date = new Date()): boolean {
+  if (alert.activePeriods.length === 0) return true;
+
+  const time = Math.floor(now.getTime() / 1000);
+  return alert.activePeriods.some((period) =>
+    (!period.start || period.start <= time) && (!period.end || time <= period.end)
+  );
+}
+
+/**
+ * Alerts that concern the given stops or trips
+ * Alerts aimed at the whole agency or route (no stop or trip) concern everyone.
+ */
+export function filterAlerts(alerts: Alert[], filter: AlertFilter): Alert[] {
+  const { stopIds, tripIds } = filter;
+  if (!stopIds && !tripIds) return alerts;
+
+  const matchesTrip = (tripId: string) =>
+    (tripIds || []).some((id) => tripId === id || tripId.endsWith(`-${id}`) || id.endsWith(`-${tripId}`));
+
+  return alerts.filter((alert) =>
+    alert.informedEntities.length === 0 ||
+    alert.informedEntities.some((entity) =>
+      (!entity.stopId && !entity.tripId) ||
+      (!!entity.stopId && !!stopIds?.has(entity.stopId)) ||
+      (!!entity.tripId && matchesTrip(entity.tripId))
+    )
+  );
+}
+
 /**
  * Get delay for a specific stop on a specific trip
  *
@@ -205,7 +446,8 @@ export function getStopDelay(
         const delayMinutes = Math.round(delay / 60);
 
         let status: 'on-time' | 'delayed' | 'cancelled' = 'on-time';
-        if (stu.scheduleRelationship === 'SKIPPED' || stu.scheduleRelationship === 'CANCELED') {
+        if (update.scheduleRelationship === 'CANCELED' || stu.scheduleRelationship === 'SKIPPED') {
+          // Either the whole trip is cancelled or it won't stop here
           status = 'cancelled';
         } else if (Math.abs(delayMinutes) >= 1) {
           // Show delays of 1 minute or more
@@ -221,23 +463,21 @@ export function getStopDelay(
 }
 
 /**
- * Get delay for a specific trip (any stop on the trip)
- * This is useful when you know the trip_id but don't have the exact GTFS stop_id
+ * Find the trip update for a trip
  *
  * @param updates - Array of trip updates from GTFS-Realtime feed
  * @param tripId - The GTFS trip_id to match
  * @param trainNumber - Optional train number to use as fallback if exact trip_id match fails
- * @returns Delay information for the trip, or null if not found
  */
-export function getTripDelay(
+export function findTripUpdate(
   updates: TripUpdate[],
   tripId: string,
   trainNumber?: string
-): { delay: number; status: 'on-time' | 'delayed' | 'cancelled' } | null {
+): TripUpdate | null {
   // First, try exact trip_id match
   for (const update of updates) {
     if (update.tripId === tripId) {
-      return calculateTripDelay(update);
+      return update;
     }
   }
 
@@ -246,7 +486,7 @@ export function getTripDelay(
     for (const update of updates) {
       // Check if tripId equals train number OR ends with train number
       if (update.tripId === trainNumber || update.tripId.endsWith(`-${trainNumber}`)) {
-        return calculateTripDelay(update);
+        return update;
       }
     }
   }
@@ -254,39 +494,149 @@ export function getTripDelay(
   return null;
 }
 
+export interface ScheduledStopTime {
+  stopId: string;
+  stopSequence: number;
+  arrival: number; // scheduled unix timestamp
+  departure: number; // scheduled unix timestamp
+}
+
+export interface StopDelay {
+  arrivalDelay: number; // in seconds
+  departureDelay: number; // in seconds
+}
+
+/**
+ * Estimate the delay at every stop of a trip from its stop time updates
+ *
+ * Stops with an update use it (an absolute time wins over a delay). Stops between two updates
+ * are interpolated by scheduled time, and stops after the last update inherit its delay, as the
+ * GTFS-Realtime spec describes. Stops before the first update have no estimate - the train has
+ * usually already served them.
+ *
+ * @param update - Trip update for the trip
+ * @param scheduledStops - The trip's scheduled stop times, in stop sequence order
+ * @returns Delay per scheduled stop (same order), null where there is no estimate or the stop is skipped
+ */
+export function estimateStopDelays(
+  update: TripUpdate,
+  scheduledStops: ScheduledStopTime[]
+): (StopDelay | null)[] {
+  const estimates: (StopDelay | null)[] = scheduledStops.map(() => null);
+  if (update.scheduleRelationship === 'CANCELED') {
+    return estimates;
+  }
+
+  const skipped = new Set<number>();
+  const anchors: { index: number; delay: StopDelay }[] = [];
+
+  for (const stu of update.stopTimeUpdates) {
+    // Feeds that omit stop_sequence are matched on stop_id
+    const index = scheduledStops.findIndex((stop) =>
+      stu.stopSequence ? stop.stopSequence === stu.stopSequence : stop.stopId === stu.stopId
+    );
+    if (index < 0 || stu.scheduleRelationship === 'NO_DATA') continue;
+
+    if (stu.scheduleRelationship === 'SKIPPED') {
+      skipped.add(index);
+      continue;
+    }
+
+    const scheduled = scheduledStops[index];
+    const arrival = stu.arrival?.time ? stu.arrival.time - scheduled.arrival : stu.arrival?.delay;
+    const departure = stu.departure?.time ? stu.departure.time - scheduled.departure : stu.departure?.delay;
+    if (arrival === undefined && departure === undefined) continue;
+
+    anchors.push({
+      index,
+      delay: { arrivalDelay: arrival ?? departure!, departureDelay: departure ?? arrival! },
+    });
+  }
+
+  anchors.sort((a, b) => a.index - b.index);
+
+  for (let i = 0; i < anchors.length; i++) {
+    const from = anchors[i];
+    const to = anchors[i + 1];
+    estimates[from.index] = from.delay;
+
+    const endIndex = to ? to.index : scheduledStops.length;
+    const startTime = scheduledStops[from.index].departure;
+    const span = to ? scheduledStops[to.index].arrival - startTime : 0;
+
+    for (let index = from.index + 1; index < endIndex; index++) {
+      if (!to || span <= 0) {
+        // Propagate the last known delay down the line
+        estimates[index] = { arrivalDelay: from.delay.departureDelay, departureDelay: from.delay.departureDelay };
+        continue;
+      }
+
+      const interpolate = (time: number) => Math.round(
+        from.delay.departureDelay + (to.delay.arrivalDelay - from.delay.departureDelay) * ((time - startTime) / span)
+      );
+      estimates[index] = {
+        arrivalDelay: interpolate(scheduledStops[index].arrival),
+        departureDelay: interpolate(scheduledStops[index].departure),
+      };
+    }
+  }
+
+  for (const index of skipped) {
+    estimates[index] = null;
+  }
+
+  return estimates;
+}
+
+/**
+ * Get delay for a specific trip (any stop on the trip)
+ * This is useful when you know the trip_id but don't have the exact GTFS stop_id
+ *
+ * @param updates - Array of trip updates from GTFS-Realtime feed
+ * @param tripId - The GTFS trip_id to match
+ * @param trainNumber - Optional train number to use as fallback if exact trip_id match fails
+ * @returns Delay information for the trip, or null if not found
+ */
+export function getTripDelay(
+  updates: TripUpdate[],
+  tripId: string,
+  trainNumber?: string
+): { delay: number; status: 'on-time' | 'delayed' | 'cancelled' } | null {
+  const update = findTripUpdate(updates, tripId, trainNumber);
+  return update ? calculateTripDelay(update) : null;
+}
+
 /**
  * Helper function to calculate delay from a TripUpdate
  */
 function calculateTripDelay(
   update: TripUpdate
 ): { delay: number; status: 'on-time' | 'delayed' | 'cancelled' } | null {
+  // A cancelled trip usually has no stop time updates at all
+  if (update.scheduleRelationship === 'CANCELED') {
+    return { delay: 0, status: 'cancelled' };
+  }
+
   if (update.stopTimeUpdates.length === 0) {
     return null;
   }
 
-  // Find the maximum delay across all stops in this trip
-  // This captures delays that accumulate during the journey
-  let maxDelaySeconds = 0;
-  let isCancelled = false;
+  // Without the rider's stops, use the delay at the next reported stop - where the train is now.
+  // A delay further down the line hasn't happened yet and may never reach earlier stops.
+  const reported = update.stopTimeUpdates
+    .filter((stop) => stop.scheduleRelationship !== 'SKIPPED' && stop.scheduleRelationship !== 'NO_DATA')
+    .sort((a, b) => a.stopSequence - b.stopSequence);
 
-  for (const stop of update.stopTimeUpdates) {
-    if (stop.scheduleRelationship === 'SKIPPED' || stop.scheduleRelationship === 'CANCELED') {
-      isCancelled = true;
-      break;
-    }
-
-    const stopDelay = stop.departure?.delay || stop.arrival?.delay || 0;
-    if (Math.abs(stopDelay) > Math.abs(maxDelaySeconds)) {
-      maxDelaySeconds = stopDelay;
-    }
+  if (reported.length === 0) {
+    return null;
   }
 
-  const delayMinutes = Math.round(maxDelaySeconds / 60);
+  const currentDelaySeconds = reported[0].departure?.delay || reported[0].arrival?.delay || 0;
+
+  const delayMinutes = Math.round(currentDelaySeconds / 60);
 
   let status: 'on-time' | 'delayed' | 'cancelled' = 'on-time';
-  if (isCancelled) {
-    status = 'cancelled';
-  } else if (Math.abs(delayMinutes) >= 1) {
+  if (Math.abs(delayMinutes) >= 1) {
     // Show delays of 1 minute or more
     status = 'delayed';
   }
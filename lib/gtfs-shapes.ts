@@ -0,0 +1,37 @@
+// GTFS Shapes
+// Track geometry from shapes.txt for drawing the Caltrain corridor
+
+export interface GTFSShapePoint {
+  shape_id: string;
+  shape_pt_lat: string;
+  shape_pt_lon: string;
+  shape_pt_sequence: number;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Group shape points by shape_id, ordered by shape_pt_sequence
+ */
+export function buildShapeIndex(points: GTFSShapePoint[]): Map<string, LatLng[]> {
+  const grouped = new Map<string, GTFSShapePoint[]>();
+  for (const point of points) {
+    const list = grouped.get(point.shape_id);
+    if (list) {
+      list.push(point);
+    } else {
+      grouped.set(point.shape_id, [point]);
+    }
+  }
+
+  const shapes = new Map<string, LatLng[]>();
+  for (const [shapeId, list] of grouped) {
+    list.sort((a, b) => a.shape_pt_sequence - b.shape_pt_sequence);
+    shapes.set(shapeId, list.map((p) => ({ lat: parseFloat(p.shape_pt_lat), lng: parseFloat(p.shape_pt_lon) })));
+  }
+
+  return shapes;
+}
@@ -1,58 +1,64 @@
 // GTFS Static Schedule Parser for Caltrain
 // Fetches and parses GTFS static data from 511.org API
 
-import { Train } from './types';
+import { Train, TrainPosition, TrainLeg, TrainType, TrainRoute, FareQuote, TrainDetail, TrainStop } from './types';
 import { getStationById, stations } from './stations';
-import { TripUpdate, getTripDelay } from './gtfs-realtime';
+import {
+  TripUpdate,
+  VehiclePosition,
+  StopDelay,
+  getTripDelay,
+  findTripUpdate,
+  estimateStopDelays,
+} from './gtfs-realtime';
 import { TrainDelay } from './caltrain-alerts-scraper';
-
-interface GTFSStopTime {
-  trip_id: string;
-  arrival_time: string;
-  departure_time: string;
-  stop_id: string;
-  stop_sequence: number;
-}
-
-interface GTFSTrip {
-  trip_id: string;
-  route_id: string;
-  service_id: string;
-  trip_short_name: string;
-  trip_headsign: string;
-  direction_id: string;
-}
-
-interface GTFSCalendar {
-  service_id: string;
-  monday: string;
-  tuesday: string;
-  wednesday: string;
-  thursday: string;
-  friday: string;
-  saturday: string;
-  sunday: string;
-  start_date: string;
-  end_date: string;
-}
-
-interface GTFSCalendarDate {
-  service_id: string;
-  date: string;
-  exception_type: string; // 1 = service added, 2 = service removed
-}
+import {
+  GTFSStop,
+  StationIndex,
+  buildStationIndex,
+  inferPlatformDirections,
+  validateStationIndex,
+  getPlatformStopId,
+} from './gtfs-stations';
+import { FareTables, calculateFare, DEFAULT_FARE_CATEGORY } from './fares';
+import {
+  GTFSStore,
+  GTFSTrip,
+  GTFSRoute,
+  GTFSStopTime,
+  buildGTFSStore,
+  findTripsBetweenStops,
+  getActiveServiceIds,
+  TripSegment,
+} from './gtfs-store';
+import { GTFS_TABLES, GTFSTableName, GTFSRow, readGTFSTable } from './gtfs-csv';
+import { TransferRules, buildTransferRules, findTransferItineraries, TransferItinerary } from './trip-planner';
+import { LatLng, buildShapeIndex } from './gtfs-shapes';
+import { DelayObservation } from './delay-history';
+import { Readable } from 'stream';
+import { getPacificDateString, pacificDateTime } from './pacific-time';
 
 let gtfsCache: {
-  stopTimes: GTFSStopTime[];
-  trips: GTFSTrip[];
-  calendar: GTFSCalendar[];
-  calendarDates: GTFSCalendarDate[];
+  store: GTFSStore | null;
+  stops: GTFSStop[];
+  stationIndex: StationIndex | null;
+  fares: FareTables;
+  transferRules: TransferRules;
+  shapes: Map<string, LatLng[]>;
   lastFetch: Date | null;
 } = {
-  stopTimes: [],
-  trips: [],
-  calendar: [],
-  calendarDates: [],
+  store: null,
+  stops: [],
+  stationIndex: null,
+  fares: {
+    attributes: [],
+    rules: [],
+    riderCategoryPrices: [],
+    zones: [],
+    riderCategories: [],
+  },
+  transferRules: new Map(),
+  shapes: new Map(),
   lastFetch: null,
 };
 
@@ -116,72 +122,58 @@ function getPacificTimeInfo(date: Date) {
 }
 
 /**
- * Determine which service_id to use based on current date
+ * Rebuild the indexed store and station/platform index from freshly parsed tables
  */
-function getActiveServiceId(
-  date: Date,
-  calendar: GTFSCalendar[],
-  calendarDates: GTFSCalendarDate[]
-): string | null {
-  // Get Pacific Time date information
-  const { dayOfWeek, dateStr } = getPacificTimeInfo(date);
-
-  // Check for exception dates (holidays)
-  const exceptionDate = calendarDates.find(
-    (cd) => cd.date === dateStr && cd.exception_type === '1'
-  );
-  if (exceptionDate) {
-    return exceptionDate.service_id;
-  }
-
-  // Find active service based on day of week
-  for (const cal of calendar) {
-    const startDate = parseInt(cal.start_date);
-    const endDate = parseInt(cal.end_date);
-    const currentDate = parseInt(dateStr);
-
-    if (currentDate < startDate || currentDate > endDate) continue;
-
-    // Check if service is removed for this specific date
-    const removed = calendarDates.find(
-      (cd) => cd.date === dateStr && cd.service_id === cal.service_id && cd.exception_type === '2'
-    );
-    if (removed) continue;
-
-    // Check day of week
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const dayName = dayNames[dayOfWeek];
-
-    if (cal[dayName as keyof GTFSCalendar] === '1') {
-      return cal.service_id;
-    }
-  }
+function rebuildIndexes(tables: Parameters<typeof buildGTFSStore>[0]): void {
+  gtfsCache.store = buildGTFSStore(tables);
 
-  return null;
+  const platformDirections = inferPlatformDirections(tables.stopTimes, tables.trips);
+  gtfsCache.stationIndex = buildStationIndex(gtfsCache.stops, platformDirections);
+  validateStationIndex(gtfsCache.stationIndex);
 }
 
 /**
- * Parse CSV text into array of objects
+ * Read every GTFS table the app uses and rebuild the cache
+ *
+ * @param openFile - Returns a stream or buffer for a feed file, or null if the feed doesn't ship it
  */
-function parseCSV(csvText: string): any[] {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) return [];
-
-  const headers = lines[0].split(',').map(h => h.trim());
-  const result: any[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    const obj: any = {};
+async function loadGTFSTables(
+  openFile: (file: string) => Promise<Readable | Buffer | null>
+): Promise<void> {
+  const read = async <K extends GTFSTableName>(table: K, required: boolean): Promise<GTFSRow<K>[]> => {
+    const source = await openFile(GTFS_TABLES[table].file);
+    if (!source) {
+      if (required) {
+        throw new Error(`Required GTFS file not found: ${GTFS_TABLES[table].file}`);
+      }
+      return [];
+    }
+    return readGTFSTable(source, table);
+  };
 
-    headers.forEach((header, index) => {
-      obj[header] = values[index] || '';
-    });
+  const stopTimes = await read('stopTimes', true);
+  const trips = await read('trips', true);
+  // routes.txt is optional for train types - falls back to a stop-count heuristic
+  const routes = await read('routes', false);
+  const calendar = await read('calendar', true);
+  const calendarDates = await read('calendarDates', false);
+  gtfsCache.stops = await read('stops', true);
+
+  rebuildIndexes({ stopTimes, trips, routes, calendar, calendarDates });
+
+  // Fare files are optional - fares are omitted if the feed doesn't ship them
+  gtfsCache.fares = {
+    attributes: await read('fareAttributes', false),
+    rules: await read('fareRules', false),
+    riderCategoryPrices: await read('fareRiderCategories', false),
+    zones: await read('fareZones', false),
+    riderCategories: await read('riderCategories', false),
+  };
 
-    result.push(obj);
-  }
+  gtfsCache.transferRules = buildTransferRules(await read('transfers', false));
+  gtfsCache.shapes = buildShapeIndex(await read('shapes', false));
 
-  return result;
+  gtfsCache.lastFetch = new Date();
 }
 
 /**
@@ -189,26 +181,18 @@ function parseCSV(csvText: string): any[] {
  */
 async function loadLocalGTFSData(): Promise<boolean> {
   try {
-    const fs = await import('fs/promises');
+    const fs = await import('fs');
     const path = await import('path');
 
     const dataDir = path.join(process.cwd(), 'data', 'gtfs');
 
-    // Read local GTFS files
-    const stopTimesData = await fs.readFile(path.join(dataDir, 'stop_times.txt'), 'utf8');
-    const tripsData = await fs.readFile(path.join(dataDir, 'trips.txt'), 'utf8');
-    const calendarData = await fs.readFile(path.join(dataDir, 'calendar.txt'), 'utf8');
-    const calendarDatesData = await fs.readFile(path.join(dataDir, 'calendar_dates.txt'), 'utf8');
-
-    // Parse CSV data
-    gtfsCache.stopTimes = parseCSV(stopTimesData);
-    gtfsCache.trips = parseCSV(tripsData);
-    gtfsCache.calendar = parseCSV(calendarData);
-    gtfsCache.calendarDates = parseCSV(calendarDatesData);
-
-    gtfsCache.lastFetch = new Date();
+    // Stream local GTFS files straight into the CSV parser
+    await loadGTFSTables(async (file) => {
+      const filePath = path.join(dataDir, file);
+      return fs.existsSync(filePath) ? fs.createReadStream(filePath) : null;
+    });
 
-    console.log(`GTFS data loaded from local files: ${gtfsCache.stopTimes.length} stop times, ${gtfsCache.trips.length} trips`);
+    console.log(`GTFS data loaded from local files: ${gtfsCache.store!.stopTimes.length} stop times, ${gtfsCache.store!.trips.length} trips`);
     return true;
   } catch (error) {
     console.error('Error loading local GTFS data:', error);
@@ -250,27 +234,9 @@ async function fetchGTFSData(): Promise<boolean> {
       const AdmZip = (await import('adm-zip')).default;
       const zip = new AdmZip(Buffer.from(arrayBuffer));
 
-      // Parse required files
-      const stopTimesEntry = zip.getEntry('stop_times.txt');
-      const tripsEntry = zip.getEntry('trips.txt');
-      const calendarEntry = zip.getEntry('calendar.txt');
-      const calendarDatesEntry = zip.getEntry('calendar_dates.txt');
-
-      if (!stopTimesEntry || !tripsEntry || !calendarEntry) {
-        throw new Error('Required GTFS files not found in zip');
-      }
+      await loadGTFSTables(async (file) => zip.getEntry(file)?.getData() || null);
 
-      // Parse CSV data
-      gtfsCache.stopTimes = parseCSV(stopTimesEntry.getData().toString('utf8'));
-      gtfsCache.trips = parseCSV(tripsEntry.getData().toString('utf8'));
-      gtfsCache.calendar = parseCSV(calendarEntry.getData().toString('utf8'));
-      gtfsCache.calendarDates = calendarDatesEntry
-        ? parseCSV(calendarDatesEntry.getData().toString('utf8'))
-        : [];
-
-      gtfsCache.lastFetch = new Date();
-
-      console.log(`GTFS data loaded from remote: ${gtfsCache.stopTimes.length} stop times, ${gtfsCache.trips.length} trips`);
+      console.log(`GTFS data loaded from remote: ${gtfsCache.store!.stopTimes.length} stop times, ${gtfsCache.store!.trips.length} trips`);
       return true;
     } catch (error) {
       console.error('Error fetching remote GTFS data, trying local files:', error);
@@ -282,112 +248,113 @@ async function fetchGTFSData(): Promise<boolean> {
 }
 
 /**
- * Map station code to GTFS stop_id
- * Caltrain GTFS uses 5-digit codes: 7001X where X is 1 (Northbound) or 2 (Southbound)
- */
-function findGTFSStopId(stationCode: string, directionId: string): string {
-  // Mapping from our station codes to GTFS stop ID base numbers
-  const codeMapping: { [key: string]: string } = {
-    'SF': '7001',
-    '22ND': '7002',
-    'BAYSHORE': '7003',
-    'SSF': '7004',  // South San Francisco
-    'SB': '7005',   // San Bruno
-    'MB': '7006',   // Millbrae
-    'MILLBRAE': '7006',
-    'BURLINGAME': '7008',
-    'SM': '7009',   // San Mateo
-    'HAYWARD': '7010',  // Hayward Park
-    'HILLSDALE': '7011',
-    'BELMONT': '7012',
-    'SC': '7013',   // San Carlos
-    'SAN CARLOS': '7013',
-    'RW': '7014',   // Redwood City
-    'REDWOOD': '7014',
-    'MP': '7016',   // Menlo Park
-    'MENLO': '7016',
-    'PA': '7017',   // Palo Alto
-    'PALO ALTO': '7017',
-    'STANFORD': '253774', // Stanford (special ID)
-    'CALAVEUE': '7019', // California Ave
-    'CALIFORNIA': '7019',
-    'SAN ANTONIO': '7020',
-    'MV': '7021',   // Mountain View
-    'MOUNTAIN VIEW': '7021',
-    'SUNNYVALE': '7022',
-    'LAWRENCE': '7023',
-    'SANTACLARA': '7024',
-    'SANTA CLARA': '7024',
-    'COLLEGEPARK': '7025',
-    'COLLEGE PARK': '7025',
-    'SJ': '7026',   // San Jose Diridon
-    'DIRIDON': '7026',
-    'TAMIEN': '7027',
-    'CAPITOL': '7028',
-    'BH': '7029',   // Blossom Hill
-    'BLOSSOM HILL': '7029',
-    'MH': '7030',   // Morgan Hill
-    'MORGAN HILL': '7030',
-    'SAN MARTIN': '7031',
-    'GILROY': '7032'
-  };
+ * Get the station/platform index built from stops.txt
+ * Loads GTFS data if it has not been loaded yet
+ */
+export async function getStationIndex(): Promise<StationIndex | null> {
+  const loaded = await fetchGTFSData();
+  if (!loaded) return null;
+  return gtfsCache.stationIndex;
+}
 
-  const baseCode = codeMapping[stationCode.toUpperCase()];
-  if (!baseCode) {
-    console.warn(`No GTFS mapping found for station code: ${stationCode}`);
-    return `${stationCode}${directionId === '0' ? '1' : '2'}`; // Fallback to old format
+/**
+ * Every stop_id (parent station and platforms) belonging to the given app stations
+ */
+export async function getStationStopIds(stationIds: string[]): Promise<Set<string>> {
+  const stationIndex = await getStationIndex();
+  const wanted = new Set(stationIds);
+  const stopIds = new Set<string>();
+
+  for (const [stopId, stationId] of stationIndex?.byStopId || []) {
+    if (wanted.has(stationId)) {
+      stopIds.add(stopId);
+    }
   }
 
-  // Stanford has a special ID format
-  if (baseCode === '253774') {
-    return directionId === '0' ? '2537740' : '2537744';
-  }
+  return stopIds;
+}
+
+/**
+ * Look up the fare between two stations using their stops.txt fare zones
+ */
+function getFareFromCache(originStationId: string, destinationStationId: string): FareQuote | null {
+  const originZone = gtfsCache.stationIndex?.byStationId.get(originStationId)?.zoneId;
+  const destinationZone = gtfsCache.stationIndex?.byStationId.get(destinationStationId)?.zoneId;
+  if (!originZone || !destinationZone) return null;
 
-  // Append direction: 1 for Northbound (direction_id='0'), 2 for Southbound (direction_id='1')
-  return `${baseCode}${directionId === '0' ? '1' : '2'}`;
+  return calculateFare(gtfsCache.fares, originZone, destinationZone);
 }
 
 /**
- * Get trains from real GTFS schedule
+ * Get the fare quote for a station pair
+ * Returns zone count and prices per rider category, or null if the feed has no matching fare
  */
-export async function getScheduledTrains(
+export async function getFareQuote(
   originStationId: string,
-  destinationStationId: string,
-  date: Date = new Date(),
-  tripUpdates: TripUpdate[] = [],
-  caltrainAlerts: Map<string, TrainDelay> = new Map()
-): Promise<Train[]> {
-  console.log(`getScheduledTrains called: ${originStationId} -> ${destinationStationId}`);
+  destinationStationId: string
+): Promise<FareQuote | null> {
+  const loaded = await fetchGTFSData();
+  if (!loaded) return null;
+  return getFareFromCache(originStationId, destinationStationId);
+}
 
+export interface ScheduleQueryOptions {
+  arriveBy?: boolean; // Treat `date` as the latest arrival time instead of the earliest departure
+  transfers?: boolean; // Include one-transfer itineraries that beat direct trains (default true)
+}
+
+interface RouteSchedule {
+  store: GTFSStore;
+  originStopId: string;
+  destinationStopId: string;
+  includeTrip: (trip: GTFSTrip) => boolean; // Active service and direction
+  segments: TripSegment[];
+  serviceDate: string; // YYYY-MM-DD (Pacific)
+  direction: 'Northbound' | 'Southbound';
+  adultFare?: number;
+}
+
+/**
+ * Resolve every trip segment between two stations on the service day containing `date`
+ * Returns null if GTFS data, the stations or their platforms can't be found
+ */
+async function getRouteSchedule(
+  originStationId: string,
+  destinationStationId: string,
+  date: Date
+): Promise<RouteSchedule | null> {
   // Ensure GTFS data is loaded
   const loaded = await fetchGTFSData();
-  if (!loaded || gtfsCache.trips.length === 0) {
+  const store = gtfsCache.store;
+  if (!loaded || !store || store.trips.length === 0) {
     console.error('GTFS data not loaded or empty');
-    return []; // Return empty if GTFS not available
+    return null;
   }
 
-  console.log(`GTFS data loaded: ${gtfsCache.trips.length} trips, ${gtfsCache.stopTimes.length} stop times`);
+  console.log(`GTFS data loaded: ${store.trips.length} trips, ${store.stopTimes.length} stop times`);
 
   const originStation = getStationById(originStationId);
   const destinationStation = getStationById(destinationStationId);
 
   if (!originStation || !destinationStation) {
     console.error('Station not found:', { originStation, destinationStation });
-    return [];
+    return null;
   }
 
   // Determine which service is active today
-  const serviceId = getActiveServiceId(date, gtfsCache.calendar, gtfsCache.calendarDates);
-  if (!serviceId) {
+  // Several services can run on the same day (e.g. base weekday plus a special-event supplement)
+  const { dayOfWeek, dateStr } = getPacificTimeInfo(date);
+  const serviceIds = getActiveServiceIds(store, dateStr, dayOfWeek);
+  if (serviceIds.size === 0) {
     console.warn('No active service found for date:', date);
-    return [];
+    return null;
   }
 
-  console.log(`Active service ID: ${serviceId} for date ${date.toLocaleDateString()}`);
+  console.log(`Active service IDs: ${[...serviceIds].join(', ')} for date ${dateStr}`);
 
-  // Get all trips for this service
-  const activeTrips = gtfsCache.trips.filter((trip) => trip.service_id === serviceId);
-  console.log(`Found ${activeTrips.length} active trips for service ${serviceId}`);
+  for (const serviceId of serviceIds) {
+    console.log(`Found ${store.tripsByServiceId.get(serviceId)?.length || 0} active trips for service ${serviceId}`);
+  }
 
   // Determine direction based on actual station geographic order
   // Stations array is ordered north to south, so we can use array indices
@@ -400,209 +367,794 @@ export async function getScheduledTrains(
 
   console.log(`Direction: ${originStation.name} (index ${originIndex}) -> ${destinationStation.name} (index ${destIndex}) = ${isNorthbound ? 'Northbound' : 'Southbound'} (direction_id=${directionId})`);
 
-  // Map station codes to GTFS stop IDs
-  // GTFS uses numeric stop IDs: 7001X format where X is 1 (NB) or 2 (SB)
-  // We need to find the actual stop_id from the GTFS stops data
-  const originStopId = findGTFSStopId(originStation.code, directionId);
-  const destStopId = findGTFSStopId(destinationStation.code, directionId);
+  // Resolve platform stop IDs from the stops.txt station index
+  // Each parent station has one platform per direction (e.g. 70171 NB / 70172 SB for Palo Alto)
+  if (!gtfsCache.stationIndex) {
+    console.error('GTFS station index not built');
+    return null;
+  }
+
+  const originStopId = getPlatformStopId(gtfsCache.stationIndex, originStationId, directionId);
+  const destStopId = getPlatformStopId(gtfsCache.stationIndex, destinationStationId, directionId);
+
+  if (!originStopId || !destStopId) {
+    console.error(`No GTFS platform found for ${!originStopId ? originStation.name : destinationStation.name} (direction_id=${directionId})`);
+    return null;
+  }
 
   console.log(`Looking for trains from ${originStation.name} (${originStopId}) to ${destinationStation.name} (${destStopId}), direction=${directionId}`);
 
+  // Trips in this service and direction that stop at both platforms, via the stop index
+  const includeTrip = (trip: GTFSTrip) => serviceIds.has(trip.service_id) && trip.direction_id === directionId;
+  const segments = findTripsBetweenStops(store, originStopId, destStopId, includeTrip);
+
+  // Fare is the same for every train between this station pair
+  const adultFare = getFareFromCache(originStationId, destinationStationId)
+    ?.prices.find((p) => p.category === DEFAULT_FARE_CATEGORY)?.price;
+
+  return {
+    store,
+    originStopId,
+    destinationStopId: destStopId,
+    includeTrip,
+    segments,
+    serviceDate: getPacificDateString(date),
+    direction: isNorthbound ? 'Northbound' : 'Southbound',
+    adultFare,
+  };
+}
+
+/**
+ * Shift a YYYY-MM-DD date string by a number of days
+ */
+function shiftDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map((part) => parseInt(part));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether any of a trip's stop times is past midnight (GTFS hours >= 24)
+ */
+function runsPastMidnight(store: GTFSStore, trip: GTFSTrip): boolean {
+  return (store.stopTimesByTripId.get(trip.trip_id) || [])
+    .some((stopTime) => parseInt(stopTime.arrival_time || stopTime.departure_time) >= 24);
+}
+
+/**
+ * Resolve the trip segments a query at `date` can reach across service days
+ * Trips after midnight run on the previous day's service with times past 24:00, and a
+ * late-evening query rolls over into the next day's first trains
+ *
+ * @returns Previous, current and next day schedules (days without service are left out)
+ */
+async function getRouteSchedules(
+  originStationId: string,
+  destinationStationId: string,
+  date: Date
+): Promise<RouteSchedule[]> {
+  const serviceDate = getPacificDateString(date);
+  const previous = await getRouteSchedule(originStationId, destinationStationId, pacificDateTime(shiftDateString(serviceDate, -1), '12:00'));
+  const current = await getRouteSchedule(originStationId, destinationStationId, date);
+  const next = await getRouteSchedule(originStationId, destinationStationId, pacificDateTime(shiftDateString(serviceDate, 1), '12:00'));
+
+  const schedules: RouteSchedule[] = [];
+  if (previous) {
+    // Only the previous day's late trips are still running
+    const includeTrip = (trip: GTFSTrip) => previous.includeTrip(trip) && runsPastMidnight(previous.store, trip);
+    schedules.push({ ...previous, includeTrip, segments: previous.segments.filter(({ trip }) => includeTrip(trip)) });
+  }
+  if (current) schedules.push(current);
+  if (next) schedules.push(next);
+
+  return schedules;
+}
+
+/**
+ * Map a routes.txt route name onto a service category
+ * Caltrain names routes "Local Weekday", "Local Weekend", "Limited", "Express" and "South County";
+ * anything else (e.g. special event trains) is reported as 'Special'
+ */
+export function classifyRoute(route: GTFSRoute): TrainType {
+  const name = `${route.route_short_name} ${route.route_long_name}`.toLowerCase();
+
+  if (/express|bullet/.test(name)) return 'Express';
+  if (/limited/.test(name)) return 'Limited';
+  if (/south county/.test(name)) return 'South County';
+  if (/local/.test(name)) return /weekend|saturday|sunday/.test(name) ? 'Local Weekend' : 'Local';
+  return 'Special';
+}
+
+/**
+ * Resolve a trip's route from trips.route_id
+ */
+function getTrainRoute(store: GTFSStore, routeId: string): TrainRoute | undefined {
+  const route = store.routesById.get(routeId);
+  if (!route) return undefined;
+
+  return {
+    id: route.route_id,
+    name: route.route_short_name || route.route_long_name || route.route_id,
+    color: route.route_color ? `#${route.route_color}` : undefined,
+    textColor: route.route_text_color ? `#${route.route_text_color}` : undefined,
+  };
+}
+
+/**
+ * Determine the train type from the trip's route in routes.txt
+ * Falls back to the number of stops when the feed has no matching route
+ */
+function getTrainType(store: GTFSStore, trip: GTFSTrip): TrainType {
+  const route = store.routesById.get(trip.route_id);
+  if (route) return classifyRoute(route);
+
+  // Count how many stops this trip makes
+  const tripStopCount = store.stopTimesByTripId.get(trip.trip_id)?.length || 0;
+
+  // Classify based on stop count:
+  // Local: 20+ stops (stops at most/all stations)
+  // Limited: 13-19 stops (skips some smaller stations)
+  // Express: <13 stops (only major stations)
+  if (tripStopCount >= 20) {
+    return 'Local';
+  } else if (tripStopCount >= 13) {
+    return 'Limited';
+  }
+  return 'Express';
+}
+
+/**
+ * Build the scheduled (no delay) Train for a trip segment
+ * GTFS times are Pacific wall-clock times on the service date; hours >= 24 roll into the next day
+ */
+function segmentToTrain(schedule: RouteSchedule, segment: TripSegment): Train {
+  const { trip, origin, destination } = segment;
+  const departureDate = pacificDateTime(schedule.serviceDate, origin.departure_time);
+  const arrivalDate = pacificDateTime(schedule.serviceDate, destination.arrival_time);
+
+  return {
+    trainNumber: trip.trip_short_name || trip.trip_id,
+    tripId: trip.trip_id, // Store trip_id for real-time delay matching
+    direction: schedule.direction,
+    departureTime: departureDate.toISOString(),
+    arrivalTime: arrivalDate.toISOString(),
+    duration: Math.round((arrivalDate.getTime() - departureDate.getTime()) / 60000),
+    type: getTrainType(schedule.store, trip),
+    route: getTrainRoute(schedule.store, trip.route_id),
+    fare: schedule.adultFare,
+  };
+}
+
+/**
+ * Build one leg of a transfer itinerary
+ */
+function segmentToLeg(schedule: RouteSchedule, segment: TripSegment, waitMinutes?: number): TrainLeg {
+  const { trip, origin, destination } = segment;
+  const stationIndex = gtfsCache.stationIndex;
+
+  return {
+    trainNumber: trip.trip_short_name || trip.trip_id,
+    tripId: trip.trip_id,
+    type: getTrainType(schedule.store, trip),
+    route: getTrainRoute(schedule.store, trip.route_id),
+    fromStationId: stationIndex?.byStopId.get(origin.stop_id) || origin.stop_id,
+    toStationId: stationIndex?.byStopId.get(destination.stop_id) || destination.stop_id,
+    departureTime: pacificDateTime(schedule.serviceDate, origin.departure_time).toISOString(),
+    arrivalTime: pacificDateTime(schedule.serviceDate, destination.arrival_time).toISOString(),
+    waitMinutes,
+  };
+}
+
+/**
+ * Build the Train for a transfer itinerary
+ * Number, trip and type come from the first train boarded so delay matching applies to it
+ */
+function itineraryToTrain(schedule: RouteSchedule, itinerary: TransferItinerary): Train {
+  const [first, second] = itinerary.legs;
+  const train = segmentToTrain(schedule, { trip: first.trip, origin: first.origin, destination: second.destination });
+
+  return {
+    ...train,
+    legs: [
+      segmentToLeg(schedule, first),
+      segmentToLeg(schedule, second, Math.round(itinerary.transferSeconds / 60)),
+    ],
+  };
+}
+
+/**
+ * Real-time delay estimate for each of a trip's stops, in stop_times order
+ */
+function estimateTripDelays(
+  store: GTFSStore,
+  trip: GTFSTrip,
+  serviceDate: string,
+  update: TripUpdate
+): { stopSequence: number; delay: StopDelay | null }[] {
+  const stopTimes = store.stopTimesByTripId.get(trip.trip_id) || [];
+  const toUnix = (time: string) => pacificDateTime(serviceDate, time).getTime() / 1000;
+
+  const delays = estimateStopDelays(update, stopTimes.map((stopTime) => ({
+    stopId: stopTime.stop_id,
+    stopSequence: stopTime.stop_sequence,
+    arrival: toUnix(stopTime.arrival_time || stopTime.departure_time),
+    departure: toUnix(stopTime.departure_time || stopTime.arrival_time),
+  })));
+
+  return stopTimes.map((stopTime, i) => ({ stopSequence: stopTime.stop_sequence, delay: delays[i] }));
+}
+
+/**
+ * Find a trip's real-time update on the schedule's service day
+ * The same train number runs every day, so an update naming another start date isn't this run
+ */
+function findServiceDayUpdate(tripUpdates: TripUpdate[], schedule: RouteSchedule, trip: GTFSTrip): TripUpdate | null {
+  const update = findTripUpdate(tripUpdates, trip.trip_id, trip.trip_short_name);
+  if (!update || !/^\d{8}$/.test(update.startDate)) return update;
+  return update.startDate === schedule.serviceDate.replace(/-/g, '') ? update : null;
+}
+
+/**
+ * Set a train's departure and arrival delays (minutes) at the rider's origin and destination
+ */
+function applyStopDelays(train: Train, schedule: RouteSchedule, segment: TripSegment, update: TripUpdate | null): void {
+  if (!update) return;
+
+  const delays = estimateTripDelays(schedule.store, segment.trip, schedule.serviceDate, update);
+  const delayAt = (stopSequence: number) => delays.find((d) => d.stopSequence === stopSequence)?.delay;
+
+  const origin = delayAt(segment.origin.stop_sequence);
+  const destination = delayAt(segment.destination.stop_sequence);
+  if (origin) train.departureDelay = Math.round(origin.departureDelay / 60);
+  if (destination) train.arrivalDelay = Math.round(destination.arrivalDelay / 60);
+}
+
+/**
+ * Whether a trip update says the train won't stop at a scheduled stop
+ */
+function isStopSkipped(update: TripUpdate, stopTime: GTFSStopTime): boolean {
+  return update.stopTimeUpdates.some((stu) =>
+    stu.scheduleRelationship === 'SKIPPED' &&
+    (stu.stopSequence === stopTime.stop_sequence || stu.stopId === stopTime.stop_id)
+  );
+}
+
+/**
+ * Mark a scheduled train as cancelled, or as skipping the rider's stops, from its trip update
+ */
+function applyScheduleRelationship(train: Train, segment: TripSegment, update: TripUpdate | null): void {
+  if (!update) return;
+
+  if (update.scheduleRelationship === 'CANCELED') {
+    train.status = 'cancelled';
+    return;
+  }
+
+  if (isStopSkipped(update, segment.origin)) train.skipsOrigin = true;
+  if (isStopSkipped(update, segment.destination)) train.skipsDestination = true;
+}
+
+/**
+ * Build a Train for an ADDED trip from its stop time updates
+ * Returns null unless the trip stops at the origin and later at the destination
+ */
+function addedTripToTrain(schedule: RouteSchedule, update: TripUpdate): Train | null {
+  const originPlatforms = getStationPlatforms(schedule.originStopId);
+  const destinationPlatforms = getStationPlatforms(schedule.destinationStopId);
+  const stops = [...update.stopTimeUpdates]
+    .filter((stu) => stu.scheduleRelationship !== 'SKIPPED')
+    .sort((a, b) => a.stopSequence - b.stopSequence);
+
+  const originIndex = stops.findIndex((stu) => originPlatforms.includes(stu.stopId));
+  const destinationIndex = stops.findIndex((stu) => destinationPlatforms.includes(stu.stopId));
+  if (originIndex < 0 || destinationIndex <= originIndex) return null;
+
+  const departure = stops[originIndex].departure?.time || stops[originIndex].arrival?.time;
+  const arrival = stops[destinationIndex].arrival?.time || stops[destinationIndex].departure?.time;
+  if (!departure || !arrival) return null;
+
+  const route = schedule.store.routesById.get(update.routeId);
+
+  return {
+    trainNumber: update.tripId,
+    tripId: update.tripId,
+    direction: schedule.direction,
+    departureTime: new Date(departure * 1000).toISOString(),
+    arrivalTime: new Date(arrival * 1000).toISOString(),
+    duration: Math.round((arrival - departure) / 60),
+    type: route ? classifyRoute(route) : 'Special',
+    route: getTrainRoute(schedule.store, update.routeId),
+    isAdded: true,
+    fare: schedule.adultFare,
+  };
+}
+
+/**
+ * Get trains from real GTFS schedule
+ *
+ * @param date - Earliest departure (or latest arrival with arriveBy); trains can come from the
+ *   previous service day (after midnight) or the next one (late evening)
+ */
+export async function getScheduledTrains(
+  originStationId: string,
+  destinationStationId: string,
+  date: Date = new Date(),
+  tripUpdates: TripUpdate[] = [],
+  caltrainAlerts: Map<string, TrainDelay> = new Map(),
+  options: ScheduleQueryOptions = {}
+): Promise<Train[]> {
+  console.log(`getScheduledTrains called: ${originStationId} -> ${destinationStationId}`);
+
+  const schedules = await getRouteSchedules(originStationId, destinationStationId, date);
+  if (schedules.length === 0) return [];
+
   // Get current time for comparison
   const currentTimeMs = date.getTime();
 
   const trains: Train[] = [];
 
   try {
-    for (const trip of activeTrips) {
-      if (trip.direction_id !== directionId) continue;
-
-    // Find stop times for this trip at origin and destination
-    const originStop = gtfsCache.stopTimes.find(
-      (st) => st.trip_id === trip.trip_id && st.stop_id === originStopId
-    );
-    const destStop = gtfsCache.stopTimes.find(
-      (st) => st.trip_id === trip.trip_id && st.stop_id === destStopId
-    );
-
-    if (!originStop || !destStop) continue;
-
-    // Parse times (HH:MM:SS)
-    const departureTimeParts = originStop.departure_time.split(':');
-    const arrivalTimeParts = destStop.arrival_time.split(':');
-
-    // Build ISO timestamp strings for departure and arrival
-    // GTFS times are in Pacific Time, so we need to construct proper UTC timestamps
-    // Get the date components in Pacific Time
-    const pacificDateParts = date.toLocaleDateString('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit'
-    }).split('/');
-
-    // Create a date string in Pacific Time
-    const year = pacificDateParts[2];
-    const month = pacificDateParts[0].padStart(2, '0');
-    const day = pacificDateParts[1].padStart(2, '0');
-
-    if (trains.length === 0) {
-      console.log(`Base date parts: ${year}-${month}-${day} from input date ${date.toISOString()}`);
+    const segments = schedules.flatMap((schedule) => schedule.segments.map((segment) => ({ schedule, segment })));
+
+    for (const { schedule, segment } of segments) {
+      const { trip } = segment;
+      const train = segmentToTrain(schedule, segment);
+      const update = findServiceDayUpdate(tripUpdates, schedule, trip);
+      applyScheduleRelationship(train, segment, update);
+      applyStopDelays(train, schedule, segment, update);
+      const departureTimeMs = new Date(train.departureTime).getTime();
+      const arrivalTimeMs = new Date(train.arrivalTime).getTime();
+
+      // Check if this train has real-time delay information
+      // If delayed, use actual departure time (scheduled + delay) for filtering
+      // Priority: 1) GTFS-Realtime, 2) Caltrain.com alerts
+      let actualDepartureTimeMs = departureTimeMs;
+      let actualArrivalTimeMs = arrivalTimeMs;
+
+      // First, try GTFS-Realtime estimates at the rider's stops
+      if (train.departureDelay !== undefined || train.arrivalDelay !== undefined) {
+        actualDepartureTimeMs = departureTimeMs + ((train.departureDelay ?? train.arrivalDelay!) * 60 * 1000);
+        actualArrivalTimeMs = arrivalTimeMs + ((train.arrivalDelay ?? train.departureDelay!) * 60 * 1000);
+      } else if (update?.tripId === trip.trip_id) {
+        const delayInfo = getTripDelay([update], trip.trip_id);
+
+        if (delayInfo && delayInfo.delay !== 0) {
+          // Apply delay to scheduled departure and arrival times
+          actualDepartureTimeMs = departureTimeMs + (delayInfo.delay * 60 * 1000);
+          actualArrivalTimeMs = arrivalTimeMs + (delayInfo.delay * 60 * 1000);
+        }
+      }
+
+      // If GTFS-Realtime has no delay, check Caltrain alerts as fallback
+      if (actualDepartureTimeMs === departureTimeMs && caltrainAlerts.size > 0) {
+        const alertDelay = caltrainAlerts.get(trip.trip_short_name);
+
+        if (alertDelay) {
+          // Apply delay to scheduled departure and arrival times
+          actualDepartureTimeMs = departureTimeMs + (alertDelay.delayMinutes * 60 * 1000);
+          actualArrivalTimeMs = arrivalTimeMs + (alertDelay.delayMinutes * 60 * 1000);
+        }
+      }
+
+      // "Arrive by" queries keep every train that gets in on time for the requested arrival
+      if (options.arriveBy) {
+        if (actualArrivalTimeMs > currentTimeMs) continue;
+      } else {
+        // Include trains that either:
+        // 1. Haven't departed from origin yet (future departures)
+        // 2. Have departed but haven't arrived at destination yet (en-route trains, only if delayed)
+        // This allows showing trains like "Train 169 - 13 min late" that are currently traveling
+
+        // Skip trains that have already arrived at destination
+        if (actualArrivalTimeMs < currentTimeMs) continue;
+
+        // For trains that have already departed from origin, only show them if they're delayed
+        // This prevents showing trains that have left but aren't relevant anymore
+        // Exception: If the train has a delay, show it as en-route
+        if (actualDepartureTimeMs < currentTimeMs) {
+          // Train has already departed from origin
+          // Only show if there's a delay (meaning it's still relevant/en-route)
+          const hasDelay = actualDepartureTimeMs !== departureTimeMs;
+          if (!hasDelay) {
+            continue; // Skip trains that have departed without delays
+          }
+        }
+      }
+
+      trains.push(train);
     }
+  } catch (error) {
+    console.error('Error processing GTFS trips:', error);
+    return [];
+  }
 
-    // Parse the GTFS time (HH:MM:SS)
-    // GTFS allows hours >= 24 for times after midnight (e.g., 25:30:00 = 01:30:00 next day)
-    let depHour = parseInt(departureTimeParts[0]);
-    const depMin = departureTimeParts[1].padStart(2, '0');
-    const depSec = departureTimeParts[2].padStart(2, '0');
-
-    let arrHour = parseInt(arrivalTimeParts[0]);
-    const arrMin = arrivalTimeParts[1].padStart(2, '0');
-    const arrSec = arrivalTimeParts[2].padStart(2, '0');
-
-    // Create Date objects, handling hours >= 24
-    // GTFS allows hours >= 24 for times after midnight (e.g., 25:30:00 = 01:30:00 next day)
-    const depDayOffset = Math.floor(depHour / 24);
-    const depHourNormalized = depHour % 24;
-
-    const arrDayOffset = Math.floor(arrHour / 24);
-    const arrHourNormalized = arrHour % 24;
-
-    // Calculate the actual date accounting for day offset (for times like 25:30:00)
-    // Use Date constructor with year, month, day to avoid timezone issues
-    const baseDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-
-    const depDate = new Date(baseDate);
-    depDate.setDate(depDate.getDate() + depDayOffset);
-    const depYear = depDate.getFullYear();
-    const depMonth = String(depDate.getMonth() + 1).padStart(2, '0');
-    const depDay = String(depDate.getDate()).padStart(2, '0');
-
-    const arrDate = new Date(baseDate);
-    arrDate.setDate(arrDate.getDate() + arrDayOffset);
-    const arrYear = arrDate.getFullYear();
-    const arrMonth = String(arrDate.getMonth() + 1).padStart(2, '0');
-    const arrDay = String(arrDate.getDate()).padStart(2, '0');
-
-    // Build complete datetime strings with Pacific timezone offset
-    // Determine the Pacific Time offset for this date (accounts for DST)
-    const testDate = new Date(`${year}-${month}-${day}T12:00:00Z`);
-    const pacificTestStr = testDate.toLocaleString('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false,
-      timeZoneName: 'short'
-    });
-    // Extract timezone offset (e.g., "PDT" or "PST")
-    const isPDT = pacificTestStr.includes('PDT');
-    const tzOffset = isPDT ? '-07:00' : '-08:00';
-
-    // Build ISO 8601 datetime strings with timezone
-    const depDateTimeStr = `${depYear}-${depMonth}-${depDay}T${depHourNormalized.toString().padStart(2, '0')}:${depMin}:${depSec}${tzOffset}`;
-    const departureDate = new Date(depDateTimeStr);
-
-    if (trains.length === 0) {
-      console.log(`First train datetime string: ${depDateTimeStr}`);
-      console.log(`Parsed to Date: ${departureDate.toISOString()}`);
-      console.log(`Formatted back to Pacific: ${departureDate.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })}`);
+  // Extra trains added in real time aren't in the static schedule
+  // Every schedule shares the same stations and direction, so any of them can build the train
+  for (const update of tripUpdates) {
+    if (update.scheduleRelationship !== 'ADDED' || schedules[0].store.tripsById.has(update.tripId)) continue;
+
+    const train = addedTripToTrain(schedules[0], update);
+    if (!train) continue;
+
+    const departureMs = new Date(train.departureTime).getTime();
+    const arrivalMs = new Date(train.arrivalTime).getTime();
+    const inWindow = options.arriveBy ? arrivalMs <= currentTimeMs : departureMs >= currentTimeMs;
+    if (inWindow) {
+      console.log(`Including added train ${train.trainNumber}`);
+      trains.push(train);
     }
+  }
 
-    const arrDateTimeStr = `${arrYear}-${arrMonth}-${arrDay}T${arrHourNormalized.toString().padStart(2, '0')}:${arrMin}:${arrSec}${tzOffset}`;
-    const arrivalDate = new Date(arrDateTimeStr);
+  console.log(`Found ${trains.length} trains (including en-route), sorting and limiting to 5`);
 
-    // Check if this train has real-time delay information
-    // If delayed, use actual departure time (scheduled + delay) for filtering
-    // Priority: 1) GTFS-Realtime, 2) Caltrain.com alerts
-    let actualDepartureTimeMs = departureDate.getTime();
-    let actualArrivalTimeMs = arrivalDate.getTime();
+  const byDeparture = (a: Train, b: Train) =>
+    new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime();
 
-    // First, try GTFS-Realtime
-    if (tripUpdates.length > 0) {
-      const delayInfo = getTripDelay(tripUpdates, trip.trip_id);
+  const directTrains = options.arriveBy
+    // Keep the 5 latest arrivals before the requested time
+    ? trains
+        .sort((a, b) => new Date(b.arrivalTime).getTime() - new Date(a.arrivalTime).getTime())
+        .slice(0, 5)
+    // Sort all trains by departure time and keep the next 5
+    : trains.sort(byDeparture).slice(0, 5);
 
-      if (delayInfo && delayInfo.delay !== 0) {
-        // Apply delay to scheduled departure and arrival times
-        actualDepartureTimeMs = departureDate.getTime() + (delayInfo.delay * 60 * 1000);
-        actualArrivalTimeMs = arrivalDate.getTime() + (delayInfo.delay * 60 * 1000);
+  if (options.transfers === false) {
+    return directTrains.sort(byDeparture);
+  }
+
+  // Add transfer itineraries that beat the direct trains within the same window
+  const transferTrains = schedules
+    .flatMap((daySchedule) => findTransferItineraries(daySchedule.store, {
+      originStopId: daySchedule.originStopId,
+      destinationStopId: daySchedule.destinationStopId,
+      includeTrip: daySchedule.includeTrip,
+      transferPlatforms: getStationPlatforms,
+      transferRules: gtfsCache.transferRules,
+    }).map((itinerary) => itineraryToTrain(daySchedule, itinerary)))
+    .filter((train) => {
+      const departureMs = new Date(train.departureTime).getTime();
+      const arrivalMs = new Date(train.arrivalTime).getTime();
+
+      if (options.arriveBy) {
+        const earliestArrivalMs = Math.min(...directTrains.map((t) => new Date(t.arrivalTime).getTime()));
+        return arrivalMs <= currentTimeMs && (directTrains.length < 5 || arrivalMs >= earliestArrivalMs);
       }
-    }
 
-    // If GTFS-Realtime has no delay, check Caltrain alerts as fallback
-    if (actualDepartureTimeMs === departureDate.getTime() && caltrainAlerts.size > 0) {
-      const alertDelay = caltrainAlerts.get(trip.trip_short_name);
+      const lastDepartureMs = Math.max(...directTrains.map((t) => new Date(t.departureTime).getTime()));
+      return departureMs >= currentTimeMs && (directTrains.length < 5 || departureMs <= lastDepartureMs);
+    });
 
-      if (alertDelay) {
-        // Apply delay to scheduled departure and arrival times
-        actualDepartureTimeMs = departureDate.getTime() + (alertDelay.delayMinutes * 60 * 1000);
-        actualArrivalTimeMs = arrivalDate.getTime() + (alertDelay.delayMinutes * 60 * 1000);
-      }
-    }
+  // Itineraries come back in departure order within each service day; keep the 5 closest to the requested time
+  const closestTransfers = options.arriveBy ? transferTrains.slice(-5) : transferTrains.slice(0, 5);
 
-    // Include trains that either:
-    // 1. Haven't departed from origin yet (future departures)
-    // 2. Have departed but haven't arrived at destination yet (en-route trains, only if delayed)
-    // This allows showing trains like "Train 169 - 13 min late" that are currently traveling
-
-    // Skip trains that have already arrived at destination
-    if (actualArrivalTimeMs < currentTimeMs) continue;
-
-    // For trains that have already departed from origin, only show them if they're delayed
-    // This prevents showing trains that have left but aren't relevant anymore
-    // Exception: If the train has a delay, show it as en-route
-    if (actualDepartureTimeMs < currentTimeMs) {
-      // Train has already departed from origin
-      // Only show if there's a delay (meaning it's still relevant/en-route)
-      const hasDelay = actualDepartureTimeMs !== departureDate.getTime();
-      if (!hasDelay) {
-        continue; // Skip trains that have departed without delays
-      }
-    }
+  if (closestTransfers.length > 0) {
+    console.log(`Found ${closestTransfers.length} faster transfer itineraries`);
+  }
+
+  return [...directTrains, ...closestTransfers].sort(byDeparture);
+}
+
+/**
+ * Every platform at the same station as a stop (used as transfer candidates)
+ */
+function getStationPlatforms(stopId: string): string[] {
+  const stationId = gtfsCache.stationIndex?.byStopId.get(stopId);
+  const platforms = stationId ? gtfsCache.stationIndex?.byStationId.get(stationId)?.platformStopIds : undefined;
+  return platforms && platforms.length > 0 ? platforms : [stopId];
+}
+
+/**
+ * Get the full timetable for a station pair on a service day
+ * Includes every scheduled trip (past and future), without real-time delays
+ *
+ * @param date - Any instant on the service day (Pacific date picks the service calendar)
+ */
+export async function getTimetable(
+  originStationId: string,
+  destinationStationId: string,
+  date: Date = new Date()
+): Promise<Train[]> {
+  const schedule = await getRouteSchedule(originStationId, destinationStationId, date);
+  if (!schedule) return [];
+
+  return schedule.segments
+    .map((segment) => segmentToTrain(schedule, segment))
+    .sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime());
+}
 
-    const durationMinutes = Math.round((arrivalDate.getTime() - departureDate.getTime()) / 60000);
-
-    // Determine train type (Local, Limited, Express) based on number of stops
-    // Count how many stops this trip makes
-    const tripStopCount = gtfsCache.stopTimes.filter(
-      (st) => st.trip_id === trip.trip_id
-    ).length;
-
-    // Classify based on stop count:
-    // Local: 20+ stops (stops at most/all stations)
-    // Limited: 13-19 stops (skips some smaller stations)
-    // Express: <13 stops (only major stations)
-    let trainType: 'Local' | 'Limited' | 'Express';
-    if (tripStopCount >= 20) {
-      trainType = 'Local';
-    } else if (tripStopCount >= 13) {
-      trainType = 'Limited';
-    } else {
-      trainType = 'Express';
+/**
+ * Get the complete stop sequence for a trip on a service day
+ * Real-time estimates follow GTFS-RT semantics: a stop without its own update inherits
+ * the delay of the last updated stop before it
+ *
+ * @param tripId - GTFS trip_id, or a train number running on the service day
+ * @param date - Any instant on the service day
+ * @param tripUpdates - Trip updates from GTFS-Realtime (only used for today's trips)
+ * @returns The trip detail, or null if the trip isn't in the feed
+ */
+export async function getTrainDetail(
+  tripId: string,
+  date: Date = new Date(),
+  tripUpdates: TripUpdate[] = []
+): Promise<TrainDetail | null> {
+  const loaded = await fetchGTFSData();
+  const store = gtfsCache.store;
+  const stationIndex = gtfsCache.stationIndex;
+  if (!loaded || !store || !stationIndex) {
+    console.error('GTFS data not loaded or empty');
+    return null;
+  }
+
+  const { dayOfWeek, dateStr } = getPacificTimeInfo(date);
+  let trip = store.tripsById.get(tripId);
+
+  // Allow looking a trip up by its public train number (e.g. "113")
+  if (!trip) {
+    const serviceIds = getActiveServiceIds(store, dateStr, dayOfWeek);
+    trip = store.trips.find((t) => t.trip_short_name === tripId && serviceIds.has(t.service_id));
+  }
+
+  if (!trip) return null;
+
+  const serviceDate = getPacificDateString(date);
+  const stopsById = new Map(gtfsCache.stops.map((stop) => [stop.stop_id, stop]));
+  const update = findTripUpdate(tripUpdates, trip.trip_id, trip.trip_short_name);
+
+  const stopTimes = store.stopTimesByTripId.get(trip.trip_id) || [];
+  const delays = update ? estimateTripDelays(store, trip, serviceDate, update) : [];
+  const stops: TrainStop[] = [];
+
+  stopTimes.forEach((stopTime, i) => {
+    const stop = stopsById.get(stopTime.stop_id);
+    const stationId = stationIndex.byStopId.get(stopTime.stop_id);
+    const scheduledArrival = pacificDateTime(serviceDate, stopTime.arrival_time || stopTime.departure_time);
+    const scheduledDeparture = pacificDateTime(serviceDate, stopTime.departure_time || stopTime.arrival_time);
+
+    const skipped = !!update && isStopSkipped(update, stopTime);
+
+    // Interpolated between real-time updates and propagated down the line
+    const delay = delays[i]?.delay;
+    const arrival = delay
+      ? new Date(scheduledArrival.getTime() + delay.arrivalDelay * 1000).toISOString()
+      : undefined;
+    const departure = delay
+      ? new Date(scheduledDeparture.getTime() + delay.departureDelay * 1000).toISOString()
+      : undefined;
+
+    stops.push({
+      stationId,
+      stopId: stopTime.stop_id,
+      name: (stationId && getStationById(stationId)?.name) || stop?.stop_name || stopTime.stop_id,
+      platformCode: stop?.platform_code || undefined,
+      stopSequence: stopTime.stop_sequence,
+      scheduledArrival: scheduledArrival.toISOString(),
+      scheduledDeparture: scheduledDeparture.toISOString(),
+      arrival,
+      departure,
+      skipped,
+    });
+  });
+
+  // Stations between the first and last stop that this train runs through
+  const servedIndices = stops
+    .map((stop) => stations.findIndex((s) => s.id === stop.stationId))
+    .filter((index) => index >= 0);
+  const servedStationIds = new Set(stops.map((stop) => stop.stationId));
+  const passedStations = servedIndices.length > 0
+    ? stations
+        .slice(Math.min(...servedIndices), Math.max(...servedIndices) + 1)
+        .filter((station) => !servedStationIds.has(station.id))
+        .map((station) => station.id)
+    : [];
+
+  return {
+    tripId: trip.trip_id,
+    trainNumber: trip.trip_short_name || trip.trip_id,
+    direction: trip.direction_id === '0' ? 'Northbound' : 'Southbound',
+    type: getTrainType(store, trip),
+    route: getTrainRoute(store, trip.route_id),
+    headsign: trip.trip_headsign,
+    serviceDate,
+    hasRealtime: update !== null,
+    stops,
+    passedStations,
+  };
+}
+
+/**
+ * Get the track geometry for a station pair from shapes.txt
+ * Uses the shape most trips between the two stations run on
+ *
+ * @returns Ordered shape points, or null if the feed has no shapes for the route
+ */
+export async function getRouteShape(
+  originStationId: string,
+  destinationStationId: string,
+  date: Date = new Date()
+): Promise<LatLng[] | null> {
+  const schedule = await getRouteSchedule(originStationId, destinationStationId, date);
+  if (!schedule) return null;
+
+  const shapeCounts = new Map<string, number>();
+  for (const { trip } of schedule.segments) {
+    if (trip.shape_id) {
+      shapeCounts.set(trip.shape_id, (shapeCounts.get(trip.shape_id) || 0) + 1);
     }
+  }
+
+  const [shapeId] = [...shapeCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+  return (shapeId && gtfsCache.shapes.get(shapeId)) || null;
+}
+
+/**
+ * Narrow live vehicle positions to trains running between two stations
+ * Vehicles are matched by trip_id, falling back to the train number
+ */
+export async function getRouteVehicles(
+  originStationId: string,
+  destinationStationId: string,
+  vehicles: VehiclePosition[],
+  date: Date = new Date()
+): Promise<TrainPosition[]> {
+  const schedule = await getRouteSchedule(originStationId, destinationStationId, date);
+  if (!schedule) return [];
+
+  const byTripId = new Map(schedule.segments.map(({ trip }) => [trip.trip_id, trip]));
+  const byTrainNumber = new Map(schedule.segments.map(({ trip }) => [trip.trip_short_name, trip]));
+  const positions: TrainPosition[] = [];
 
-    trains.push({
+  for (const vehicle of vehicles) {
+    const trip = byTripId.get(vehicle.tripId) || byTrainNumber.get(vehicle.tripId);
+    if (!trip) continue;
+
+    positions.push({
       trainNumber: trip.trip_short_name || trip.trip_id,
-      tripId: trip.trip_id, // Store trip_id for real-time delay matching
-      direction: isNorthbound ? 'Northbound' : 'Southbound',
-      departureTime: departureDate.toISOString(),
-      arrivalTime: arrivalDate.toISOString(),
-      duration: durationMinutes,
-      type: trainType,
+      tripId: trip.trip_id,
+      direction: schedule.direction,
+      coordinates: { lat: vehicle.latitude, lng: vehicle.longitude },
+      bearing: vehicle.bearing,
+      status: vehicle.currentStatus,
+      stationId: vehicle.stopId ? gtfsCache.stationIndex?.byStopId.get(vehicle.stopId) : undefined,
+      timestamp: vehicle.timestamp,
     });
-    }
-  } catch (error) {
-    console.error('Error processing GTFS trips:', error);
-    return [];
   }
 
-  console.log(`Found ${trains.length} trains (including en-route), sorting and limiting to 5`);
+  return positions;
+}
+
+/**
+ * Live delays at the origin for every train on a route that the real-time feed covers
+ * Used as upstream evidence when forecasting the trains behind them
+ */
+export async function getLineDelays(
+  originStationId: string,
+  destinationStationId: string,
+  tripUpdates: TripUpdate[],
+  date: Date = new Date()
+): Promise<{ trainNumber: string; departureTime: string; delay: number }[]> {
+  if (tripUpdates.length === 0) return [];
+
+  // Same service days as the trains being forecast
+  const schedules = await getRouteSchedules(originStationId, destinationStationId, date);
+  const segments = schedules.flatMap((schedule) => schedule.segments.map((segment) => ({ schedule, segment })));
+
+  const lineDelays: { trainNumber: string; departureTime: string; delay: number }[] = [];
+
+  for (const { schedule, segment } of segments) {
+    const { trip } = segment;
+    const update = findServiceDayUpdate(tripUpdates, schedule, trip);
+    if (!update || update.scheduleRelationship === 'CANCELED') continue;
+
+    const train = segmentToTrain(schedule, segment);
+    applyStopDelays(train, schedule, segment, update);
+
+    // Trains past the origin no longer have an estimate there - use their current delay
+    const delay = train.departureDelay ?? train.arrivalDelay ?? getTripDelay([update], update.tripId)?.delay;
+    if (delay === undefined) continue;
+
+    lineDelays.push({ trainNumber: train.trainNumber, departureTime: train.departureTime, delay });
+  }
+
+  return lineDelays;
+}
+
+/**
+ * Whether a trip passes a station before reaching another, or null if the trip isn't known
+ * Express trains run through stations they don't stop at, so those are judged by line position.
+ */
+function tripPassesStation(store: GTFSStore, stationIndex: StationIndex, tripId: string, stationId: string, untilStationId: string): boolean | null {
+  const stationIds = (store.stopTimesByTripId.get(tripId) || [])
+    .map((stopTime) => stationIndex.byStopId.get(stopTime.stop_id))
+    .filter((id): id is string => !!id);
+
+  const untilIndex = stationIds.indexOf(untilStationId);
+  if (untilIndex < 0) return null;
+
+  const stopIndex = stationIds.indexOf(stationId);
+  if (stopIndex >= 0) return stopIndex <= untilIndex;
+
+  // Stations array is ordered north to south
+  const linePosition = (id: string) => stations.findIndex((station) => station.id === id);
+  const start = linePosition(stationIds[0]);
+  const end = linePosition(untilStationId);
+  const position = linePosition(stationId);
+  return position >= Math.min(start, end) && position <= Math.max(start, end);
+}
+
+/**
+ * Trains that pass a station on the way to the rider's destination (e.g. where an incident is)
+ * Trains missing from the static schedule (added in real time or mock data) are assumed to pass it.
+ */
+export async function getTrainsPassingStation(
+  trains: Train[],
+  stationId: string,
+  destinationStationId: string
+): Promise<Set<Train>> {
+  const loaded = await fetchGTFSData();
+  const store = gtfsCache.store;
+  const stationIndex = gtfsCache.stationIndex;
+  if (!loaded || !store || !stationIndex) return new Set(trains);
+
+  return new Set(trains.filter((train) => {
+    const legs = train.legs?.map((leg) => ({ tripId: leg.tripId, until: leg.toStationId }))
+      || [{ tripId: train.tripId, until: destinationStationId }];
+
+    const results = legs.map((leg) => leg.tripId ? tripPassesStation(store, stationIndex, leg.tripId, stationId, leg.until) : null);
+    return results.every((passes) => passes === null) || results.some((passes) => passes === true);
+  }));
+}
+
+/**
+ * Turn a real-time poll into per-station delay observations for the history recorder
+ * Every station with a delay estimate is recorded; later polls overwrite earlier predictions,
+ * so the last value before the train leaves the feed is what it actually ran.
+ */
+export async function getObservedDelays(
+  tripUpdates: TripUpdate[],
+  date: Date = new Date()
+): Promise<DelayObservation[]> {
+  const loaded = await fetchGTFSData();
+  const store = gtfsCache.store;
+  const stationIndex = gtfsCache.stationIndex;
+  if (!loaded || !store || !stationIndex || tripUpdates.length === 0) return [];
+
+  const { dayOfWeek, dateStr } = getPacificTimeInfo(date);
+  const serviceIds = getActiveServiceIds(store, dateStr, dayOfWeek);
+  const today = getPacificDateString(date);
+  const observedAt = date.toISOString();
+  const observations: DelayObservation[] = [];
+
+  for (const update of tripUpdates) {
+    const trip = store.tripsById.get(update.tripId) ||
+      store.trips.find((t) => t.trip_short_name === update.tripId && serviceIds.has(t.service_id));
+    if (!trip) continue;
+
+    // start_date is YYYYMMDD; trips past midnight still belong to the previous service day
+    const serviceDate = /^\d{8}$/.test(update.startDate)
+      ? `${update.startDate.slice(0, 4)}-${update.startDate.slice(4, 6)}-${update.startDate.slice(6, 8)}`
+      : today;
+    const cancelled = update.scheduleRelationship === 'CANCELED';
+    const delays = estimateTripDelays(store, trip, serviceDate, update);
+
+    (store.stopTimesByTripId.get(trip.trip_id) || []).forEach((stopTime, i) => {
+      const stationId = stationIndex.byStopId.get(stopTime.stop_id);
+      const delay = delays[i].delay;
+      const skipped = isStopSkipped(update, stopTime);
+      if (!stationId || (!delay && !cancelled && !skipped)) return;
+
+      observations.push({
+        serviceDate,
+        trainNumber: trip.trip_short_name || trip.trip_id,
+        tripId: trip.trip_id,
+        stationId,
+        direction: trip.direction_id === '0' ? 'Northbound' : 'Southbound',
+        scheduledTime: (stopTime.departure_time || stopTime.arrival_time).padStart(8, '0').slice(0, 5),
+        delay: delay ? Math.round(delay.departureDelay / 60) : 0,
+        arrivalDelay: delay ? Math.round(delay.arrivalDelay / 60) : 0,
+        ...(cancelled || skipped ? { cancelled: true } : {}),
+        observedAt,
+      });
+    });
+  }
 
-  // Sort all trains by departure time and return the next 5
-  return trains
-    .sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime())
-    .slice(0, 5);
+  return observations;
 }
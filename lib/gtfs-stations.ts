@@ -0,0 +1,238 @@
+// GTFS Station Index for Caltrain
+// Builds the station -> platform mapping from stops.txt instead of hardcoded stop IDs
+
+import { Station } from './types';
+import { stations } from './stations';
+
+export interface GTFSStop {
+  stop_id: string;
+  stop_code: string;
+  platform_code: string;
+  stop_name: string;
+  stop_lat: string;
+  stop_lon: string;
+  zone_id: string;
+  location_type: string; // 0 = platform, 1 = station, 2 = entrance/elevator
+  parent_station: string;
+  wheelchair_boarding: string;
+}
+
+export interface StationPlatforms {
+  stationId: string; // Our app station id (e.g. 'pa')
+  parentStopId: string; // GTFS parent_station (e.g. 'palo_alto')
+  name: string;
+  zoneId: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  northbound?: string; // Platform stop_id served by direction_id=0
+  southbound?: string; // Platform stop_id served by direction_id=1
+  platformStopIds: string[];
+}
+
+export interface StationIndex {
+  byStationId: Map<string, StationPlatforms>;
+  byStopId: Map<string, string>; // Any platform or parent stop_id -> app station id
+  unmatchedStations: string[]; // App stations that could not be found in the feed
+  unmappedFeedStations: string[]; // Feed parent stations with no app station
+}
+
+// Maximum distance for matching an app station to a feed station by coordinates
+const MAX_MATCH_DISTANCE_METERS = 1000;
+
+/**
+ * Great-circle distance between two coordinates in meters
+ */
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+function stopCoordinates(stop: GTFSStop): { lat: number; lng: number } {
+  return { lat: parseFloat(stop.stop_lat), lng: parseFloat(stop.stop_lon) };
+}
+
+/**
+ * Find the feed parent station for an app station
+ * Prefers the configured gtfsStopId, then falls back to the nearest parent station
+ * so a feed with renumbered stops still resolves
+ */
+function matchParentStation(
+  station: Station,
+  parents: GTFSStop[],
+  claimed: Set<string>
+): GTFSStop | null {
+  const exact = parents.find((p) => p.stop_id === station.gtfsStopId);
+  if (exact) return exact;
+
+  let best: GTFSStop | null = null;
+  let bestDistance = Infinity;
+
+  for (const parent of parents) {
+    if (claimed.has(parent.stop_id)) continue;
+    const distance = distanceMeters(station.coordinates, stopCoordinates(parent));
+    if (distance < bestDistance) {
+      best = parent;
+      bestDistance = distance;
+    }
+  }
+
+  if (best && bestDistance <= MAX_MATCH_DISTANCE_METERS) {
+    console.warn(
+      `GTFS stop ${station.gtfsStopId} not found for ${station.name}, matched ${best.stop_id} by location (${Math.round(bestDistance)}m)`
+    );
+    return best;
+  }
+
+  return null;
+}
+
+/**
+ * Determine the direction a platform serves
+ * Uses the direction_id of trips stopping there, falling back to the stop name
+ */
+function platformDirection(
+  platform: GTFSStop,
+  platformDirections: Map<string, string>
+): 'northbound' | 'southbound' | null {
+  const directionId = platformDirections.get(platform.stop_id);
+  if (directionId === '0') return 'northbound';
+  if (directionId === '1') return 'southbound';
+
+  if (/northbound/i.test(platform.stop_name)) return 'northbound';
+  if (/southbound/i.test(platform.stop_name)) return 'southbound';
+
+  return null;
+}
+
+/**
+ * Infer which direction_id each platform stop_id is served by
+ * Returns the majority direction across all trips stopping at the platform
+ */
+export function inferPlatformDirections(
+  stopTimes: Array<{ trip_id: string; stop_id: string }>,
+  trips: Array<{ trip_id: string; direction_id: string }>
+): Map<string, string> {
+  const tripDirections = new Map<string, string>();
+  for (const trip of trips) {
+    tripDirections.set(trip.trip_id, trip.direction_id);
+  }
+
+  const counts = new Map<string, { '0': number; '1': number }>();
+  for (const st of stopTimes) {
+    const direction = tripDirections.get(st.trip_id);
+    if (direction !== '0' && direction !== '1') continue;
+
+    const count = counts.get(st.stop_id) || { '0': 0, '1': 0 };
+    count[direction]++;
+    counts.set(st.stop_id, count);
+  }
+
+  const directions = new Map<string, string>();
+  for (const [stopId, count] of counts) {
+    directions.set(stopId, count['0'] >= count['1'] ? '0' : '1');
+  }
+
+  return directions;
+}
+
+/**
+ * Build the station/platform index from GTFS stops
+ *
+ * @param stops - Rows from stops.txt
+ * @param platformDirections - Optional stop_id -> direction_id map (see inferPlatformDirections)
+ */
+export function buildStationIndex(
+  stops: GTFSStop[],
+  platformDirections: Map<string, string> = new Map()
+): StationIndex {
+  const parents = stops.filter((s) => s.location_type === '1');
+  const platforms = stops.filter((s) => (s.location_type || '0') === '0' && s.parent_station);
+
+  const byStationId = new Map<string, StationPlatforms>();
+  const byStopId = new Map<string, string>();
+  const unmatchedStations: string[] = [];
+  const claimed = new Set<string>();
+
+  for (const station of stations) {
+    const parent = matchParentStation(station, parents, claimed);
+    if (!parent) {
+      unmatchedStations.push(station.id);
+      continue;
+    }
+    claimed.add(parent.stop_id);
+
+    const children = platforms.filter((p) => p.parent_station === parent.stop_id);
+    const entry: StationPlatforms = {
+      stationId: station.id,
+      parentStopId: parent.stop_id,
+      name: parent.stop_name,
+      zoneId: parent.zone_id || children.find((c) => c.zone_id)?.zone_id || '',
+      coordinates: stopCoordinates(parent),
+      platformStopIds: children.map((c) => c.stop_id),
+    };
+
+    for (const child of children) {
+      const direction = platformDirection(child, platformDirections);
+      if (direction && !entry[direction]) {
+        entry[direction] = child.stop_id;
+      }
+      byStopId.set(child.stop_id, station.id);
+    }
+    byStopId.set(parent.stop_id, station.id);
+
+    byStationId.set(station.id, entry);
+  }
+
+  const unmappedFeedStations = parents
+    .filter((p) => !claimed.has(p.stop_id))
+    .map((p) => p.stop_id);
+
+  return { byStationId, byStopId, unmatchedStations, unmappedFeedStations };
+}
+
+/**
+ * Log any mismatch between lib/stations.ts and the loaded feed
+ */
+export function validateStationIndex(index: StationIndex): boolean {
+  for (const stationId of index.unmatchedStations) {
+    console.error(`Station ${stationId} has no matching parent station in GTFS stops.txt`);
+  }
+
+  for (const [stationId, entry] of index.byStationId) {
+    if (!entry.northbound || !entry.southbound) {
+      console.warn(`Station ${stationId} (${entry.parentStopId}) is missing a ${entry.northbound ? 'southbound' : 'northbound'} platform`);
+    }
+  }
+
+  if (index.unmappedFeedStations.length > 0) {
+    console.log(`GTFS stations not offered in the app: ${index.unmappedFeedStations.join(', ')}`);
+  }
+
+  return index.unmatchedStations.length === 0;
+}
+
+/**
+ * Get the platform stop_id for a station in a given GTFS direction
+ *
+ * @param index - Station index built from stops.txt
+ * @param stationId - App station id
+ * @param directionId - '0' for Northbound, '1' for Southbound
+ */
+export function getPlatformStopId(
+  index: StationIndex,
+  stationId: string,
+  directionId: string
+): string | null {
+  const entry = index.byStationId.get(stationId);
+  if (!entry) return null;
+
+  return (directionId === '0' ? entry.northbound : entry.southbound) || null;
+}
@@ -0,0 +1,216 @@
+// Indexed in-memory GTFS store
+// Built once per feed load so per-request lookups don't scan the whole feed
+
+export interface GTFSStopTime {
+  trip_id: string;
+  arrival_time: string;
+  departure_time: string;
+  stop_id: string;
+  stop_sequence: number;
+}
+
+export interface GTFSTrip {
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  trip_short_name: string;
+  trip_headsign: string;
+  direction_id: string;
+  shape_id?: string;
+}
+
+export interface GTFSRoute {
+  route_id: string;
+  route_short_name: string;
+  route_long_name: string;
+  route_color: string; // Hex without '#'
+  route_text_color: string; // Hex without '#'
+}
+
+export interface GTFSCalendar {
+  service_id: string;
+  monday: string;
+  tuesday: string;
+  wednesday: string;
+  thursday: string;
+  friday: string;
+  saturday: string;
+  sunday: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface GTFSCalendarDate {
+  service_id: string;
+  date: string;
+  exception_type: string; // 1 = service added, 2 = service removed
+}
+
+export interface GTFSStore {
+  stopTimes: GTFSStopTime[];
+  trips: GTFSTrip[];
+  routes: GTFSRoute[];
+  calendar: GTFSCalendar[];
+  calendarDates: GTFSCalendarDate[];
+  routesById: Map<string, GTFSRoute>;
+  tripsById: Map<string, GTFSTrip>;
+  tripsByServiceId: Map<string, GTFSTrip[]>;
+  stopTimesByTripId: Map<string, GTFSStopTime[]>; // Ordered by stop_sequence
+  stopTimeByTripAndStop: Map<string, Map<string, GTFSStopTime>>; // trip_id -> stop_id -> stop time
+  departuresByStopId: Map<string, GTFSStopTime[]>; // Ordered by departure_time
+  calendarDatesByDate: Map<string, GTFSCalendarDate[]>; // YYYYMMDD -> exceptions
+}
+
+export interface TripSegment {
+  trip: GTFSTrip;
+  origin: GTFSStopTime;
+  destination: GTFSStopTime;
+}
+
+/**
+ * Convert a GTFS time (HH:MM:SS, hours may exceed 24) to seconds after midnight
+ */
+export function gtfsTimeToSeconds(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map((part) => parseInt(part) || 0);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function pushToIndex<T>(index: Map<string, T[]>, key: string, value: T): void {
+  const list = index.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+}
+
+/**
+ * Build the indexed store from parsed GTFS tables
+ */
+export function buildGTFSStore(tables: {
+  stopTimes: GTFSStopTime[];
+  trips: GTFSTrip[];
+  routes?: GTFSRoute[];
+  calendar: GTFSCalendar[];
+  calendarDates: GTFSCalendarDate[];
+}): GTFSStore {
+  const routes = tables.routes || [];
+  const routesById = new Map(routes.map((route) => [route.route_id, route]));
+
+  const tripsById = new Map<string, GTFSTrip>();
+  const tripsByServiceId = new Map<string, GTFSTrip[]>();
+  for (const trip of tables.trips) {
+    tripsById.set(trip.trip_id, trip);
+    pushToIndex(tripsByServiceId, trip.service_id, trip);
+  }
+
+  const stopTimesByTripId = new Map<string, GTFSStopTime[]>();
+  const stopTimeByTripAndStop = new Map<string, Map<string, GTFSStopTime>>();
+  const departuresByStopId = new Map<string, GTFSStopTime[]>();
+  for (const stopTime of tables.stopTimes) {
+    pushToIndex(stopTimesByTripId, stopTime.trip_id, stopTime);
+    pushToIndex(departuresByStopId, stopTime.stop_id, stopTime);
+
+    let byStop = stopTimeByTripAndStop.get(stopTime.trip_id);
+    if (!byStop) {
+      byStop = new Map();
+      stopTimeByTripAndStop.set(stopTime.trip_id, byStop);
+    }
+    byStop.set(stopTime.stop_id, stopTime);
+  }
+
+  for (const list of stopTimesByTripId.values()) {
+    list.sort((a, b) => a.stop_sequence - b.stop_sequence);
+  }
+  for (const list of departuresByStopId.values()) {
+    list.sort((a, b) => gtfsTimeToSeconds(a.departure_time) - gtfsTimeToSeconds(b.departure_time));
+  }
+
+  const calendarDatesByDate = new Map<string, GTFSCalendarDate[]>();
+  for (const calendarDate of tables.calendarDates) {
+    pushToIndex(calendarDatesByDate, calendarDate.date, calendarDate);
+  }
+
+  return {
+    ...tables,
+    routes,
+    routesById,
+    tripsById,
+    tripsByServiceId,
+    stopTimesByTripId,
+    stopTimeByTripAndStop,
+    departuresByStopId,
+    calendarDatesByDate,
+  };
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+/**
+ * Compute every service_id running on a service date
+ *
+ * Starts from calendar.txt services whose date range and weekday match, then applies
+ * calendar_dates.txt exceptions independently: exception_type=1 adds a service
+ * (e.g. a special-event supplement), exception_type=2 removes one (e.g. weekday service on a holiday)
+ *
+ * @param store - Indexed GTFS store
+ * @param dateStr - Service date as YYYYMMDD
+ * @param dayOfWeek - Day of week for the service date (0=Sunday, 6=Saturday)
+ */
+export function getActiveServiceIds(
+  store: GTFSStore,
+  dateStr: string,
+  dayOfWeek: number
+): Set<string> {
+  const active = new Set<string>();
+  const currentDate = parseInt(dateStr);
+  const dayName = DAY_NAMES[dayOfWeek];
+
+  for (const cal of store.calendar) {
+    if (currentDate < parseInt(cal.start_date) || currentDate > parseInt(cal.end_date)) continue;
+    if (cal[dayName] === '1') {
+      active.add(cal.service_id);
+    }
+  }
+
+  for (const exception of store.calendarDatesByDate.get(dateStr) || []) {
+    if (exception.exception_type === '1') {
+      active.add(exception.service_id);
+    } else if (exception.exception_type === '2') {
+      active.delete(exception.service_id);
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Find every trip that stops at the origin and later at the destination
+ * Cost scales with the number of departures at the origin stop, not the size of the feed
+ *
+ * @param store - Indexed GTFS store
+ * @param originStopId - Platform stop_id to board at
+ * @param destinationStopId - Platform stop_id to alight at
+ * @param includeTrip - Filter applied to each candidate trip (e.g. active service, direction)
+ * @returns Matching segments ordered by scheduled departure from the origin
+ */
+export function findTripsBetweenStops(
+  store: GTFSStore,
+  originStopId: string,
+  destinationStopId: string,
+  includeTrip: (trip: GTFSTrip) => boolean = () => true
+): TripSegment[] {
+  const segments: TripSegment[] = [];
+
+  for (const origin of store.departuresByStopId.get(originStopId) || []) {
+    const trip = store.tripsById.get(origin.trip_id);
+    if (!trip || !includeTrip(trip)) continue;
+
+    const destination = store.stopTimeByTripAndStop.get(trip.trip_id)?.get(destinationStopId);
+    if (!destination || destination.stop_sequence <= origin.stop_sequence) continue;
+
+    segments.push({ trip, origin, destination });
+  }
+
+  return segments;
+}
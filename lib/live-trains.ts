@@ -0,0 +1,449 @@
+// Live Train Delays
+// Gathers the real-time delay sources from the shared scheduler and applies them to scheduled trains
+
+import { Train, DelaySource, DelayReading } from './types';
+import { TripUpdate, getTripDelay, findTripUpdate } from './gtfs-realtime';
+import { getScheduledTrains, getObservedDelays, getLineDelays, getTrainsPassingStation } from './gtfs-static';
+import { findStationByText } from './stations';
+import {
+  CaltrainAlert,
+  TrainDelay,
+  parseAlertsFromText,
+  extractTrainDelays,
+  getSystemWideDelays
+} from './caltrain-alerts-scraper';
+import {
+  RealtimeSourceName,
+  getTripUpdates,
+  getCaltrainAlerts,
+  getSimplifyDelay,
+  getTwitterAlerts,
+  getSourceAges
+} from './realtime-sources';
+import { isTwitterAlertsEnabled, extractTwitterTrainDelays } from './twitter-alerts-scraper';
+import { recordDelayObservations, readDelayHistory } from './delay-history';
+import { predictTrainDelay, PREDICTION_HISTORY_DAYS } from './delay-predictor';
+import { getPacificDateString } from './pacific-time';
+import { generateMockTrains, applyMockDelays } from './mock-trains';
+
+export interface RealtimeSnapshot {
+  tripUpdates: TripUpdate[];
+  caltrainAlerts: Map<string, TrainDelay>; // Train-specific delays by train number (tweets included)
+  twitterDelays: Map<string, TrainDelay>; // Recent @CaltrainAlerts tweets by train number
+  systemWideDelays: CaltrainAlert[];
+  simplifyDelay: number | null;
+  fetchedAt: Date;
+  sourceAges: Partial<Record<RealtimeSourceName, number | null>>; // Milliseconds since each source was fetched
+  sourceFetchedAt: Partial<Record<RealtimeSourceName, Date>>;
+}
+
+export const EMPTY_REALTIME_SNAPSHOT: RealtimeSnapshot = {
+  tripUpdates: [],
+  caltrainAlerts: new Map(),
+  twitterDelays: new Map(),
+  systemWideDelays: [],
+  simplifyDelay: null,
+  fetchedAt: new Date(0),
+  sourceAges: {},
+  sourceFetchedAt: {},
+};
+
+// Scheduler source behind each delay source
+const DELAY_SOURCE_FEEDS: Record<DelaySource, RealtimeSourceName> = {
+  'gtfs-rt': 'tripUpdates',
+  'caltrain.com': 'caltrainAlerts',
+  'twitter': 'twitterAlerts',
+  'caltrain.com-systemwide': 'caltrainAlerts',
+  'simplifytransit': 'simplifyAlerts',
+};
+
+// How much each source is trusted on its own
+const DELAY_SOURCE_CONFIDENCE: Record<DelaySource, NonNullable<Train['delayConfidence']>> = {
+  'gtfs-rt': 'high', // Trip-specific and measured
+  'caltrain.com': 'medium', // Train-specific but written by hand
+  'twitter': 'medium', // Train-specific, written by hand, may lag behind
+  'caltrain.com-systemwide': 'low', // Applied to every train in a direction
+  'simplifytransit': 'low',
+};
+
+// Feed fetch time last written to the delay history
+let lastRecordedFeedAt = 0;
+
+/**
+ * Whether any delay source returned data
+ */
+export function hasDelaySource(snapshot: RealtimeSnapshot): boolean {
+  return snapshot.tripUpdates.length > 0 ||
+    snapshot.caltrainAlerts.size > 0 ||
+    snapshot.twitterDelays.size > 0 ||
+    snapshot.systemWideDelays.length > 0 ||
+    snapshot.simplifyDelay !== null;
+}
+
+/**
+ * Gather every real-time delay source from the shared scheduler
+ * Priority: 1) GTFS-Realtime from 511.org, 2) Caltrain.com alerts, 3) @CaltrainAlerts tweets (opt-in), 4) SimplifyTransit
+ *
+ * @param alertsText - Alert text to parse instead of scraping Caltrain.com (for testing)
+ */
+export async function fetchRealtimeSnapshot(alertsText?: string, now: Date = new Date()): Promise<RealtimeSnapshot> {
+  // Parse Caltrain alerts for train-specific delays
+  // Priority: 1) Alert text override (for testing), 2) Automated scraping from Caltrain.com
+  let caltrainAlerts = new Map<string, TrainDelay>();
+
+  if (alertsText) {
+    try {
+      const parsedAlerts = parseAlertsFromText(alertsText);
+      caltrainAlerts = extractTrainDelays(parsedAlerts);
+      console.log(`Parsed ${caltrainAlerts.size} train delays from query parameter`);
+    } catch (error) {
+      console.error('Error parsing Caltrain alerts from query parameter:', error);
+    }
+  }
+
+  // Sources are cached and shared, so fetching them together costs at most one upstream call each
+  const [tripUpdatesSource, scrapedSource, simplifySource, twitterSource] = await Promise.all([
+    getTripUpdates(),
+    caltrainAlerts.size === 0 ? getCaltrainAlerts() : Promise.resolve(null),
+    getSimplifyDelay(),
+    isTwitterAlertsEnabled() ? getTwitterAlerts() : Promise.resolve(null),
+  ]);
+  const tripUpdates = tripUpdatesSource.value;
+
+  if (tripUpdates.length > 0) {
+    // Keep a history of observed delays for on-time performance reports (once per feed refresh)
+    const feedFetchedAt = tripUpdatesSource.fetchedAt?.getTime() ?? 0;
+    if (feedFetchedAt !== lastRecordedFeedAt) {
+      lastRecordedFeedAt = feedFetchedAt;
+      try {
+        const recorded = await recordDelayObservations(await getObservedDelays(tripUpdates, now));
+        if (recorded > 0) {
+          console.log(`Recorded ${recorded} delay observations`);
+        }
+      } catch (error) {
+        console.error('Error recording delay history:', error);
+      }
+    }
+  }
+
+  // If no override, use the alerts scraped from Caltrain.com
+  let systemWideDelays: CaltrainAlert[] = [];
+  if (scrapedSource) {
+    const scrapedAlerts = scrapedSource.value;
+    caltrainAlerts = extractTrainDelays(scrapedAlerts);
+    systemWideDelays = getSystemWideDelays(scrapedAlerts);
+
+    if (caltrainAlerts.size > 0) {
+      console.log(`Auto-scraped ${caltrainAlerts.size} train-specific delays from Caltrain.com:`);
+      for (const [trainNum, delay] of caltrainAlerts) {
+        console.log(`  Train ${trainNum}: ${delay.delayMinutes} min delay`);
+      }
+    } else {
+      console.log('No train-specific delays found in Caltrain.com alerts');
+    }
+
+    if (systemWideDelays.length > 0) {
+      console.log(`Found ${systemWideDelays.length} system-wide delay alerts:`);
+      for (const alert of systemWideDelays) {
+        console.log(`  ${alert.alertText.substring(0, 80)}...`);
+        console.log(`    Delay: ${alert.delayMinutes} min, Direction: ${alert.affectedDirection || 'both'}, Location: ${alert.affectedLocation || 'system-wide'}`);
+      }
+    } else {
+      console.log('No system-wide delays found in Caltrain.com alerts');
+    }
+  }
+
+  // @CaltrainAlerts tweets fill in trains Caltrain.com has no alert for
+  const twitterDelays = twitterSource ? extractTwitterTrainDelays(twitterSource.value, now) : new Map<string, TrainDelay>();
+  if (twitterSource) {
+    let added = 0;
+    for (const [trainNum, delay] of twitterDelays) {
+      if (!caltrainAlerts.has(trainNum)) {
+        caltrainAlerts.set(trainNum, delay);
+        added++;
+      }
+    }
+    console.log(`@CaltrainAlerts: ${added} train-specific delays added from recent tweets`);
+  }
+
+  return {
+    tripUpdates,
+    caltrainAlerts,
+    twitterDelays,
+    systemWideDelays,
+    simplifyDelay: simplifySource.value,
+    fetchedAt: now,
+    sourceAges: getSourceAges(),
+    sourceFetchedAt: {
+      tripUpdates: tripUpdatesSource.fetchedAt ?? undefined,
+      // Alert text override counts as observed now
+      caltrainAlerts: scrapedSource ? scrapedSource.fetchedAt ?? undefined : now,
+      simplifyAlerts: simplifySource.fetchedAt ?? undefined,
+      twitterAlerts: twitterSource?.fetchedAt ?? undefined,
+    },
+  };
+}
+
+/**
+ * Record where a train's delay came from and how far other sources disagree
+ * A disagreeing source lowers confidence by one step.
+ */
+function applyDelayProvenance(train: Train, chosen: DelayReading, others: DelayReading[], observedAt?: Date): void {
+  const conflicts = others.filter((reading) => reading.delay !== chosen.delay);
+  const levels: NonNullable<Train['delayConfidence']>[] = ['low', 'medium', 'high'];
+  const baseLevel = levels.indexOf(DELAY_SOURCE_CONFIDENCE[chosen.source]);
+
+  train.delaySource = chosen.source;
+  train.observedAt = observedAt?.toISOString();
+  train.delayConfidence = levels[Math.max(0, baseLevel - (conflicts.length > 0 ? 1 : 0))];
+  if (conflicts.length > 0) {
+    train.conflictingDelays = conflicts;
+  }
+}
+
+/**
+ * The delay source behind a train list: the one every covered train shares, 'mixed' or 'none'
+ */
+export function summarizeDelaySource(trains: Train[]): DelaySource | 'mixed' | 'none' {
+  const sources = new Set(trains.map((train) => train.delaySource).filter((source): source is DelaySource => !!source));
+  if (sources.size === 0) return 'none';
+  return sources.size === 1 ? [...sources][0] : 'mixed';
+}
+
+/**
+ * Trains each located system-wide alert reaches: those that pass its station before the destination
+ * Alerts without a known location are left out and apply to every train.
+ */
+export async function getSystemWideAlertReach(
+  trains: Train[],
+  systemWideDelays: CaltrainAlert[],
+  destinationStationId: string
+): Promise<Map<CaltrainAlert, Set<Train>>> {
+  const alertReach = new Map<CaltrainAlert, Set<Train>>();
+  for (const sysAlert of systemWideDelays) {
+    if (!sysAlert.affectedLocation) continue;
+
+    const station = findStationByText(sysAlert.affectedLocation);
+    if (!station) {
+      console.warn(`Unknown system-wide delay location "${sysAlert.affectedLocation}" - applying to all trains`);
+      continue;
+    }
+
+    try {
+      alertReach.set(sysAlert, await getTrainsPassingStation(trains, station.id, destinationStationId));
+    } catch (error) {
+      console.error(`Error finding trains passing ${station.name}:`, error);
+    }
+  }
+
+  return alertReach;
+}
+
+/**
+ * Whether a system-wide alert covers a train: same direction (alerts without one cover both) and,
+ * for located alerts, the train passes the alert's station (see getSystemWideAlertReach)
+ */
+export function isCoveredBySystemWideAlert(
+  train: Train,
+  alert: CaltrainAlert,
+  alertReach: Map<CaltrainAlert, Set<Train>>
+): boolean {
+  const direction = alert.affectedDirection || 'both';
+  if (direction !== 'both' && direction !== train.direction.toLowerCase()) return false;
+
+  const reach = alertReach.get(alert);
+  return !reach || reach.has(train);
+}
+
+/**
+ * Set delay and status on each train from the highest-priority source that covers it
+ */
+export async function applyRealtimeDelays(
+  trains: Train[],
+  snapshot: RealtimeSnapshot,
+  destinationStationId: string
+): Promise<void> {
+  const { tripUpdates, caltrainAlerts, systemWideDelays, simplifyDelay } = snapshot;
+  const hasGTFSRealtime = tripUpdates.length > 0;
+
+  // A system-wide alert tied to a place only delays trains that pass it before the destination
+  const alertReach = await getSystemWideAlertReach(trains, systemWideDelays, destinationStationId);
+
+  let matchedCount = 0;
+  let unmatchedCount = 0;
+
+  // Debug: Log first few trains to understand trip_id format
+  if (trains.length > 0 && hasGTFSRealtime) {
+    console.log('Sample train data for GTFS-RT matching:');
+    console.log(`  Train 1: trainNumber=${trains[0].trainNumber}, tripId=${trains[0].tripId}`);
+    if (trains.length > 1) {
+      console.log(`  Train 2: trainNumber=${trains[1].trainNumber}, tripId=${trains[1].tripId}`);
+    }
+    console.log(`  GTFS-RT feed has ${tripUpdates.length} trip updates`);
+    console.log(`  Sample GTFS-RT tripId: ${tripUpdates[0].tripId}`);
+  }
+
+  for (const train of trains) {
+    if (train.tripId || train.trainNumber) {
+      const trainNum = train.trainNumber;
+
+      // PRIORITY ORDER:
+      // 1. GTFS-Realtime (PRIMARY - most reliable, trip-specific)
+      // 2. Train-specific Caltrain.com alerts, then @CaltrainAlerts tweets (SECONDARY)
+      // 3. System-wide Caltrain.com alerts (TERTIARY)
+      // 4. SimplifyTransit system-wide alerts (FALLBACK)
+
+      const alertDelay = caltrainAlerts.get(trainNum);
+      const gtfsDelay = hasGTFSRealtime ? getTripDelay(tripUpdates, train.tripId!, trainNum) : null;
+
+      // Use the first system-wide delay alert from Caltrain.com that covers this train
+      const systemWideAlert = systemWideDelays.find((sysAlert) => isCoveredBySystemWideAlert(train, sysAlert, alertReach));
+      const systemWideDelay = systemWideAlert?.delayMinutes ?? null;
+
+      // Collect every source's value in priority order
+      const readings: DelayReading[] = [];
+      if (gtfsDelay) {
+        // Priority 1: GTFS-RT has delay info (including 0 delay = on-time)
+        // Prefer the estimate at the rider's origin over the trip-wide delay
+        const stopDelay = train.departureDelay ?? train.arrivalDelay;
+        readings.push({ source: 'gtfs-rt', delay: stopDelay ?? gtfsDelay.delay });
+      }
+      if (alertDelay && alertDelay.delayMinutes > 0) {
+        // Priority 2: Train-specific Caltrain.com alert (or @CaltrainAlerts tweet) has delay info
+        readings.push({ source: alertDelay.source === 'twitter' ? 'twitter' : 'caltrain.com', delay: alertDelay.delayMinutes });
+      }
+      if (systemWideDelay && systemWideDelay > 0) {
+        // Priority 3: Caltrain.com system-wide delay applies to this train
+        readings.push({ source: 'caltrain.com-systemwide', delay: systemWideDelay });
+      }
+      if (simplifyDelay && simplifyDelay > 0) {
+        // Priority 4: SimplifyTransit system-wide delay as final fallback
+        readings.push({ source: 'simplifytransit', delay: simplifyDelay });
+      }
+
+      const [chosen, ...others] = readings;
+      if (chosen) {
+        train.delay = chosen.delay;
+        if (chosen.source === 'gtfs-rt') {
+          train.status = gtfsDelay!.status === 'cancelled' ? 'cancelled'
+            : Math.abs(train.delay) >= 1 ? 'delayed' : 'on-time';
+        } else {
+          train.status = 'delayed';
+        }
+        applyDelayProvenance(train, chosen, others, snapshot.sourceFetchedAt[DELAY_SOURCE_FEEDS[chosen.source]]);
+        matchedCount++;
+      } else {
+        // No delay data from any source - assume on-time
+        train.status = 'on-time';
+        train.delay = 0;
+        unmatchedCount++;
+      }
+    } else {
+      // Fallback for trains without trip_id or trainNumber (mock data)
+      train.status = 'on-time';
+      train.delay = 0;
+    }
+  }
+
+  console.log(`✓ Delay data source: ${summarizeDelaySource(trains)}`);
+  console.log(`  Matched: ${matchedCount}, Unmatched: ${unmatchedCount} out of ${trains.length} trains`);
+}
+
+/**
+ * Forecast trains the real-time feed doesn't cover yet (kept separate from live delays)
+ */
+export async function applyDelayPredictions(
+  trains: Train[],
+  originStationId: string,
+  destinationStationId: string,
+  snapshot: RealtimeSnapshot,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const [history, lineDelays] = await Promise.all([
+      readDelayHistory(PREDICTION_HISTORY_DAYS, now),
+      getLineDelays(originStationId, destinationStationId, snapshot.tripUpdates, now)
+    ]);
+    const context = {
+      originStationId,
+      serviceDate: getPacificDateString(now),
+      history,
+      lineDelays,
+    };
+
+    for (const train of trains) {
+      if (train.status === 'cancelled' || train.isAdded) continue;
+      // Trains with an observed delay from any source don't need a forecast beside it
+      if (train.delaySource) continue;
+      if (findTripUpdate(snapshot.tripUpdates, train.tripId || '', train.trainNumber)) continue;
+
+      const prediction = predictTrainDelay(train, context);
+      if (prediction) {
+        train.predictedDelay = prediction;
+      }
+    }
+  } catch (error) {
+    console.error('Error predicting delays:', error);
+  }
+}
+
+export interface TrainListResult {
+  trains: Train[];
+  isMockData: boolean; // Random delays - no real delay source returned data
+  isMockSchedule: boolean; // Generated trains - the GTFS schedule was unavailable
+}
+
+/**
+ * Scheduled trains for a route with live delays and forecasts applied, falling back to mock data
+ * Shared by /api/trains and the live update stream.
+ *
+ * @param isLiveQuery - Whether queryTime is today (real-time sources only describe today's trains)
+ */
+export async function buildTrainList(
+  origin: string,
+  destination: string,
+  queryTime: Date,
+  snapshot: RealtimeSnapshot,
+  options: { arriveBy?: boolean; isLiveQuery: boolean; now: Date }
+): Promise<TrainListResult> {
+  const { isLiveQuery, now } = options;
+  let trains: Train[] = [];
+  let isMockSchedule = false;
+
+  // Pass trip updates and Caltrain alerts so filtering can account for delays
+  try {
+    trains = await getScheduledTrains(origin, destination, queryTime, snapshot.tripUpdates, new Map(snapshot.caltrainAlerts), {
+      arriveBy: !!options.arriveBy
+    });
+    console.log(`Received ${trains.length} trains from GTFS`);
+  } catch (error) {
+    console.error('Error fetching GTFS schedule:', error);
+  }
+
+  // Only use generated trains as absolute fallback if GTFS fails
+  if (trains.length === 0) {
+    console.warn('GTFS schedule unavailable, using fallback mock data');
+    trains = generateMockTrains(origin, destination, queryTime);
+    isMockSchedule = true;
+  }
+
+  // Delay Priority System:
+  // 1. GTFS-Realtime from 511.org (PRIMARY - most reliable, automated, trip-specific)
+  // 2. Caltrain.com alerts and @CaltrainAlerts tweets (SECONDARY - train-specific and system-wide delays)
+  // 3. SimplifyTransit (TERTIARY - system-wide delays as final backup)
+  const hasAnyDelaySource = hasDelaySource(snapshot);
+
+  if (hasAnyDelaySource) {
+    await applyRealtimeDelays(trains, snapshot, destination);
+  } else if (isLiveQuery) {
+    console.log('⚠ Using mock delay data - no real delay sources available');
+    applyMockDelays(trains);
+  }
+
+  // Forecast trains the real-time feed doesn't cover yet (kept separate from live delays)
+  if (isLiveQuery && !isMockSchedule) {
+    await applyDelayPredictions(trains, origin, destination, snapshot, now);
+  }
+
+  return { trains, isMockData: isLiveQuery && !hasAnyDelaySource, isMockSchedule };
+}
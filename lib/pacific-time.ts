@@ -0,0 +1,113 @@
+// Pacific Time helpers for Caltrain schedule queries
+// Caltrain timetables are published in America/Los_Angeles local time
+
+export const PACIFIC_TIMEZONE = 'America/Los_Angeles';
+
+/**
+ * Get the Pacific calendar date for an instant as YYYY-MM-DD
+ */
+export function getPacificDateString(date: Date): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return date.toLocaleDateString('en-CA', {
+    timeZone: PACIFIC_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+}
+
+/**
+ * Get the current Pacific wall-clock time as HH:MM
+ */
+export function getPacificTimeString(date: Date): string {
+  return date.toLocaleTimeString('en-GB', {
+    timeZone: PACIFIC_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+}
+
+/**
+ * Get the UTC offset in effect in Pacific Time on a given date
+ * Checked at noon so the DST transition hours (2-3 AM) don't affect the result
+ *
+ * @param dateStr - Date as YYYY-MM-DD
+ * @returns '-07:00' during PDT, '-08:00' during PST
+ */
+export function getPacificOffset(dateStr: string): string {
+  const noon = new Date(`${dateStr}T12:00:00Z`);
+  const zoneName = noon.toLocaleString('en-US', {
+    timeZone: PACIFIC_TIMEZONE,
+    timeZoneName: 'short'
+  });
+  return zoneName.includes('PDT') ? '-07:00' : '-08:00';
+}
+
+/**
+ * Build an instant from a Pacific date and wall-clock time
+ * Hours of 24 or more roll over to the following day, matching GTFS times like 25:30:00
+ *
+ * @param dateStr - Date as YYYY-MM-DD
+ * @param time - Time as HH:MM or HH:MM:SS
+ */
+export function pacificDateTime(dateStr: string, time: string): Date {
+  const [hours, minutes, seconds = 0] = time.split(':').map((part) => parseInt(part));
+  const dayOffset = Math.floor(hours / 24);
+
+  const [year, month, day] = dateStr.split('-').map((part) => parseInt(part));
+  const serviceDay = new Date(Date.UTC(year, month - 1, day + dayOffset));
+  const localDate = serviceDay.toISOString().slice(0, 10);
+
+  const hh = String(hours % 24).padStart(2, '0');
+  const mm = String(minutes).padStart(2, '0');
+  const ss = String(seconds).padStart(2, '0');
+
+  return new Date(`${localDate}T${hh}:${mm}:${ss}${getPacificOffset(localDate)}`);
+}
+
+/**
+ * Check a YYYY-MM-DD date string
+ */
+export function isValidDateString(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T12:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Parse a departAt/arriveBy query value
+ *
+ * Accepts:
+ * - "07:30" - Pacific wall-clock time on the given date (or today)
+ * - "2025-10-15T07:30" - ISO date-time without offset, treated as Pacific
+ * - "2025-10-15T14:30:00Z" / "2025-10-15T07:30:00-07:00" - ISO date-time with offset
+ *
+ * @param value - Query parameter value
+ * @param dateStr - Optional YYYY-MM-DD service date used with HH:MM values
+ * @returns The instant, or null if the value can't be parsed
+ */
+export function parseQueryDateTime(value: string, dateStr?: string): Date | null {
+  const trimmed = value.trim();
+
+  const timeOnly = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (timeOnly) {
+    const hours = parseInt(timeOnly[1]);
+    const minutes = parseInt(timeOnly[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return pacificDateTime(dateStr || getPacificDateString(new Date()), trimmed);
+  }
+
+  const localIso = trimmed.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}(?::\d{2})?)$/);
+  if (localIso) {
+    if (!isValidDateString(localIso[1])) return null;
+    return pacificDateTime(localIso[1], localIso[2]);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(trimmed)) {
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  return null;
+}
@@ -0,0 +1,186 @@
+// Real-time Source Scheduler
+// Owns every upstream real-time source: caches each result for a per-source TTL, refreshes stale
+// results in the background and shares one in-flight fetch between concurrent callers, so N users
+// don't mean N headless Chromium launches
+
+import { TripUpdate, VehiclePosition, Alert, fetchTripUpdates, fetchVehiclePositions, fetchServiceAlerts } from './gtfs-realtime';
+import { CaltrainAlert, fetchCaltrainAlerts } from './caltrain-alerts-scraper';
+import { SimplifyTransitAlert, fetchSimplifyTransitAlerts, getMaxSystemWideDelay } from './simplifytransit-scraper';
+import { TwitterTrainDelay, scrapeCaltrainAlertsTwitter } from './twitter-alerts-scraper';
+
+export type RealtimeSourceName =
+  | 'tripUpdates'
+  | 'vehiclePositions'
+  | 'serviceAlerts'
+  | 'caltrainAlerts'
+  | 'simplifyAlerts'
+  | 'twitterAlerts';
+
+// How long a fetched result is served before the next caller triggers a refresh
+export const SOURCE_TTL_MS: Record<RealtimeSourceName, number> = {
+  tripUpdates: 30 * 1000,
+  vehiclePositions: 15 * 1000,
+  serviceAlerts: 60 * 1000,
+  // Scrapers launch a headless browser - keep them well apart
+  caltrainAlerts: 2 * 60 * 1000,
+  simplifyAlerts: 2 * 60 * 1000,
+  // Scrolls the timeline for ~20s per scrape
+  twitterAlerts: 5 * 60 * 1000,
+};
+
+export interface SourceSnapshot<T> {
+  value: T;
+  fetchedAt: Date | null; // null if the source has never returned
+  ageMs: number | null; // Age when served
+}
+
+interface SourceEntry<T> {
+  value: T;
+  fetchedAt: number | null;
+  failedAt: number | null; // Last failed refresh, cleared by the next success
+  inFlight: Promise<T> | null;
+}
+
+const sources = new Map<RealtimeSourceName, SourceEntry<unknown>>();
+
+/**
+ * Serve a source from cache while fresh, otherwise refresh it (once, however many callers ask)
+ * Once a source has a value, stale callers get it straight away while the refresh runs in the
+ * background, so a scraper launching Chromium never holds up a request; only the very first
+ * fetch is awaited. Fetchers throw on failure. A failed refresh keeps serving the previous value
+ * and isn't retried until the TTL has passed, so a down scraper doesn't relaunch Chromium on
+ * every request.
+ */
+export async function getRealtimeSource<T>(
+  name: RealtimeSourceName,
+  fetcher: () => Promise<T>,
+  emptyValue: T
+): Promise<SourceSnapshot<T>> {
+  let entry = sources.get(name) as SourceEntry<T> | undefined;
+  if (!entry) {
+    entry = { value: emptyValue, fetchedAt: null, failedAt: null, inFlight: null };
+    sources.set(name, entry as SourceEntry<unknown>);
+  }
+
+  const lastAttempt = Math.max(entry.fetchedAt ?? -Infinity, entry.failedAt ?? -Infinity);
+  const isFresh = Date.now() - lastAttempt < SOURCE_TTL_MS[name];
+
+  if (!isFresh) {
+    if (!entry.inFlight) {
+      const current = entry;
+      current.inFlight = fetcher()
+        .then((value) => {
+          current.value = value;
+          current.fetchedAt = Date.now();
+          current.failedAt = null;
+          return value;
+        })
+        .catch((error) => {
+          console.error(`Error refreshing real-time source ${name}:`, error);
+          current.failedAt = Date.now();
+          return current.value;
+        })
+        .finally(() => {
+          current.inFlight = null;
+        });
+    }
+
+    // Stale-while-revalidate: only wait when there is nothing to serve yet
+    if (entry.fetchedAt === null) {
+      await entry.inFlight;
+    }
+  }
+
+  return {
+    value: entry.value,
+    fetchedAt: entry.fetchedAt !== null ? new Date(entry.fetchedAt) : null,
+    ageMs: entry.fetchedAt !== null ? Date.now() - entry.fetchedAt : null,
+  };
+}
+
+export function getTripUpdates(): Promise<SourceSnapshot<TripUpdate[]>> {
+  return getRealtimeSource('tripUpdates', async () => {
+    const tripUpdates = await fetchTripUpdates();
+    if (tripUpdates.length > 0) {
+      console.log(`✓ GTFS-Realtime (PRIMARY): Fetched ${tripUpdates.length} trip updates from 511.org`);
+      console.log(`Trip IDs in GTFS-Realtime feed:`, tripUpdates.map(u => u.tripId).join(', '));
+    } else {
+      console.warn('✗ GTFS-Realtime (PRIMARY) unavailable from 511.org');
+    }
+    return tripUpdates;
+  }, []);
+}
+
+export function getVehiclePositions(): Promise<SourceSnapshot<VehiclePosition[]>> {
+  return getRealtimeSource('vehiclePositions', fetchVehiclePositions, []);
+}
+
+export function getServiceAlerts(): Promise<SourceSnapshot<Alert[]>> {
+  return getRealtimeSource('serviceAlerts', fetchServiceAlerts, []);
+}
+
+export function getCaltrainAlerts(): Promise<SourceSnapshot<CaltrainAlert[]>> {
+  return getRealtimeSource('caltrainAlerts', async () => {
+    const scrapedAlerts = await fetchCaltrainAlerts();
+
+    // DEBUG: Log ALL scraped alert texts to understand format
+    console.log(`\n=== DEBUG: Scraped ${scrapedAlerts.length} alerts from Caltrain.com ===`);
+    for (let i = 0; i < Math.min(scrapedAlerts.length, 5); i++) {
+      const alert = scrapedAlerts[i];
+      console.log(`Alert ${i + 1}:`);
+      console.log(`  Text: "${alert.alertText}"`);
+      console.log(`  Type: ${alert.type}`);
+      console.log(`  isSystemWide: ${alert.isSystemWide}`);
+      console.log(`  delayMinutes: ${alert.delayMinutes}`);
+      console.log(`  direction: ${alert.affectedDirection}`);
+    }
+    console.log(`=== END DEBUG ===\n`);
+
+    return scrapedAlerts;
+  }, []);
+}
+
+export function getSimplifyAlerts(): Promise<SourceSnapshot<SimplifyTransitAlert[]>> {
+  return getRealtimeSource('simplifyAlerts', async () => {
+    console.log('Fetching alerts from SimplifyTransit...');
+    const alerts = await fetchSimplifyTransitAlerts();
+    const simplifyDelay = getMaxSystemWideDelay(alerts);
+    if (simplifyDelay) {
+      console.log(`✓ SimplifyTransit: System-wide delay of ${simplifyDelay} minutes`);
+    } else {
+      console.log('SimplifyTransit: No system-wide delay found');
+    }
+    return alerts;
+  }, []);
+}
+
+/**
+ * SimplifyTransit's largest system-wide delay, from the same cached scrape as its alerts
+ */
+export async function getSimplifyDelay(): Promise<SourceSnapshot<number | null>> {
+  const snapshot = await getSimplifyAlerts();
+  return { ...snapshot, value: getMaxSystemWideDelay(snapshot.value) };
+}
+
+export function getTwitterAlerts(): Promise<SourceSnapshot<TwitterTrainDelay[]>> {
+  return getRealtimeSource('twitterAlerts', scrapeCaltrainAlertsTwitter, []);
+}
+
+/**
+ * Age in milliseconds of every source's cached value (null if never fetched)
+ */
+export function getSourceAges(): Record<RealtimeSourceName, number | null> {
+  const ages = {} as Record<RealtimeSourceName, number | null>;
+  for (const name of Object.keys(SOURCE_TTL_MS) as RealtimeSourceName[]) {
+    const fetchedAt = sources.get(name)?.fetchedAt;
+    ages[name] = fetchedAt != null ? Date.now() - fetchedAt : null;
+  }
+  return ages;
+}
+
+/**
+ * Drop every cached value (for tests)
+ */
+export function resetRealtimeSources(): void {
+  sources.clear();
+}
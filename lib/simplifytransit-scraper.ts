@@ -45,6 +45,7 @@ function parseDelayFromTitle(title: string): number | undefined {
 /**
  * Fetch and parse alerts from SimplifyTransit
  * This uses Puppeteer to scrape the dynamic JavaScript-rendered page
+ * Throws when the page can't be scraped
  */
 export async function fetchSimplifyTransitAlerts(): Promise<SimplifyTransitAlert[]> {
   try {
@@ -160,30 +161,37 @@ export async function fetchSimplifyTransitAlerts(): Promise<SimplifyTransitAlert
     return parsedAlerts;
   } catch (error) {
     console.error('[SimplifyTransit] Error scraping alerts:', error);
-    return [];
+    throw error;
   }
 }
 
+/**
+ * Largest system-wide delay in a set of SimplifyTransit alerts, or null if there is none
+ */
+export function getMaxSystemWideDelay(alerts: SimplifyTransitAlert[]): number | null {
+  // Find system-wide alerts with delay information
+  const systemWideDelays = alerts
+    .filter(alert => alert.isSystemWide && alert.delayMinutes)
+    .map(alert => alert.delayMinutes!);
+
+  if (systemWideDelays.length === 0) {
+    return null;
+  }
+
+  // Return maximum delay (most conservative estimate)
+  return Math.max(...systemWideDelays);
+}
+
 /**
  * Get system-wide delay minutes from SimplifyTransit alerts
  * Returns the maximum delay if multiple alerts exist
  */
 export async function getSystemWideDelayFromSimplify(): Promise<number | null> {
   try {
-    const alerts = await fetchSimplifyTransitAlerts();
-
-    // Find system-wide alerts with delay information
-    const systemWideDelays = alerts
-      .filter(alert => alert.isSystemWide && alert.delayMinutes)
-      .map(alert => alert.delayMinutes!);
-
-    if (systemWideDelays.length === 0) {
-      return null;
+    const maxDelay = getMaxSystemWideDelay(await fetchSimplifyTransitAlerts());
+    if (maxDelay !== null) {
+      console.log(`[SimplifyTransit] System-wide delay: ${maxDelay} min`);
     }
-
-    // Return maximum delay (most conservative estimate)
-    const maxDelay = Math.max(...systemWideDelays);
-    console.log(`[SimplifyTransit] System-wide delay: ${maxDelay} min`);
     return maxDelay;
   } catch (error) {
     console.error('[SimplifyTransit] Error getting system-wide delay:', error);
@@ -6,180 +6,210 @@ export const stations: Station[] = [
     id: 'sf',
     name: 'San Francisco (4th & King)',
     code: 'SF',
+    gtfsStopId: 'san_francisco',
     coordinates: { lat: 37.7765, lng: -122.3943 }
   },
   {
     id: '22nd',
     name: '22nd Street',
     code: '22ND',
+    gtfsStopId: '22nd_street',
     coordinates: { lat: 37.7571, lng: -122.3921 }
   },
   {
     id: 'bayshore',
     name: 'Bayshore',
     code: 'BAYSHORE',
+    gtfsStopId: 'bayshore',
     coordinates: { lat: 37.7089, lng: -122.4015 }
   },
   {
     id: 'ssf',
     name: 'South San Francisco',
     code: 'SSF',
+    gtfsStopId: 'south_sf',
     coordinates: { lat: 37.6569, lng: -122.4061 }
   },
   {
     id: 'sb',
     name: 'San Bruno',
     code: 'SB',
+    gtfsStopId: 'san_bruno',
     coordinates: { lat: 37.6309, lng: -122.4111 }
   },
   {
     id: 'mb',
     name: 'Millbrae',
     code: 'MB',
+    gtfsStopId: 'place_MLBR',
     coordinates: { lat: 37.6000, lng: -122.3867 }
   },
   {
     id: 'burlingame',
     name: 'Burlingame',
     code: 'BURLINGAME',
+    gtfsStopId: 'burlingame',
     coordinates: { lat: 37.5793, lng: -122.3459 }
   },
   {
     id: 'sm',
     name: 'San Mateo',
     code: 'SM',
+    gtfsStopId: 'san_mateo',
     coordinates: { lat: 37.5683, lng: -122.3244 }
   },
   {
     id: 'hayward-park',
     name: 'Hayward Park',
     code: 'HAYWARD',
+    gtfsStopId: 'hayward_park',
     coordinates: { lat: 37.5530, lng: -122.3090 }
   },
   {
     id: 'hillsdale',
     name: 'Hillsdale',
     code: 'HILLSDALE',
+    gtfsStopId: 'hillsdale',
     coordinates: { lat: 37.5378, lng: -122.2971 }
   },
   {
     id: 'belmont',
     name: 'Belmont',
     code: 'BELMONT',
+    gtfsStopId: 'belmont',
     coordinates: { lat: 37.5206, lng: -122.2758 }
   },
   {
     id: 'sc',
     name: 'San Carlos',
     code: 'SC',
+    gtfsStopId: 'san_carlos',
     coordinates: { lat: 37.5071, lng: -122.2603 }
   },
   {
     id: 'rw',
     name: 'Redwood City',
     code: 'RW',
+    gtfsStopId: 'redwood_city',
     coordinates: { lat: 37.4854, lng: -122.2314 }
   },
   {
     id: 'mp',
     name: 'Menlo Park',
     code: 'MP',
+    gtfsStopId: 'menlo_park',
     coordinates: { lat: 37.4544, lng: -122.1819 }
   },
   {
     id: 'pa',
     name: 'Palo Alto',
     code: 'PA',
+    gtfsStopId: 'palo_alto',
     coordinates: { lat: 37.4429, lng: -122.1646 }
   },
   {
     id: 'stanford',
     name: 'Stanford',
     code: 'STANFORD',
+    gtfsStopId: 'stanford',
     coordinates: { lat: 37.4294, lng: -122.1713 }
   },
   {
     id: 'cal-ave',
     name: 'California Ave',
     code: 'CALAVEUE',
+    gtfsStopId: 'california_ave',
     coordinates: { lat: 37.4292, lng: -122.1421 }
   },
   {
     id: 'san-antonio',
     name: 'San Antonio',
     code: 'SANANTONIO',
+    gtfsStopId: 'san_antonio',
     coordinates: { lat: 37.4070, lng: -122.1065 }
   },
   {
     id: 'mv',
     name: 'Mountain View',
     code: 'MV',
+    gtfsStopId: 'mountain_view',
     coordinates: { lat: 37.3946, lng: -122.0766 }
   },
   {
     id: 'sunnyvale',
     name: 'Sunnyvale',
     code: 'SUNNYVALE',
+    gtfsStopId: 'sunnyvale',
     coordinates: { lat: 37.3784, lng: -122.0308 }
   },
   {
     id: 'lawrence',
     name: 'Lawrence',
     code: 'LAWRENCE',
+    gtfsStopId: 'lawrence',
     coordinates: { lat: 37.3702, lng: -121.9968 }
   },
   {
     id: 'santa-clara',
     name: 'Santa Clara',
     code: 'SANTACLARA',
+    gtfsStopId: 'santa_clara',
     coordinates: { lat: 37.3529, lng: -121.9364 }
   },
   {
     id: 'college-park',
     name: 'College Park',
     code: 'COLLEGEPARK',
+    gtfsStopId: 'college_park',
     coordinates: { lat: 37.3427, lng: -121.9145 }
   },
   {
     id: 'diridon',
     name: 'San Jose Diridon',
     code: 'DIRIDON',
+    gtfsStopId: 'sj_diridon',
     coordinates: { lat: 37.3297, lng: -121.9024 }
   },
   {
     id: 'tamien',
     name: 'Tamien',
     code: 'TAMIEN',
+    gtfsStopId: 'tamien',
     coordinates: { lat: 37.3115, lng: -121.8841 }
   },
   {
     id: 'capitol',
     name: 'Capitol',
     code: 'CAPITOL',
+    gtfsStopId: 'capitol',
     coordinates: { lat: 37.2880, lng: -121.8423 }
   },
   {
     id: 'blossom-hill',
     name: 'Blossom Hill',
     code: 'BLOSSOMHILL',
+    gtfsStopId: 'blossom_hill',
     coordinates: { lat: 37.2526, lng: -121.7979 }
   },
   {
     id: 'morgan-hill',
     name: 'Morgan Hill',
     code: 'MORGANHILL',
+    gtfsStopId: 'morgan_hill',
     coordinates: { lat: 37.1296, lng: -121.6504 }
   },
   {
     id: 'san-martin',
     name: 'San Martin',
     code: 'SANMARTIN',
+    gtfsStopId: 'san_martin',
     coordinates: { lat: 37.0858, lng: -121.6106 }
   },
   {
     id: 'gilroy',
     name: 'Gilroy',
     code: 'GILROY',
+    gtfsStopId: 'gilroy',
     coordinates: { lat: 37.0033, lng: -121.5666 }
   }
 ];
@@ -193,3 +223,72 @@ export function getStationById(id: string): Station | undefined {
 export function getStationByName(name: string): Station | undefined {
   return stations.find(station => station.name === name);
 }
+
+// Other names riders and alerts use for stations
+const STATION_ALIASES: Record<string, string> = {
+  '4th and king': 'sf',
+  'san francisco': 'sf',
+  'sf': 'sf',
+  'south sf': 'ssf',
+  'diridon': 'diridon',
+  'san jose': 'diridon',
+  'sj diridon': 'diridon',
+  'california avenue': 'cal-ave',
+  'cal ave': 'cal-ave',
+  'mtn view': 'mv',
+};
+
+function normalizeStationText(text: string): string {
+  return text.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Station names and aliases, longest first so "San Jose Diridon Station" doesn't settle for a shorter alias
+function stationNameCandidates(): { name: string; id: string }[] {
+  return [
+    ...stations.map(station => ({ name: normalizeStationText(station.name), id: station.id })),
+    ...Object.entries(STATION_ALIASES).map(([name, id]) => ({ name, id })),
+  ].sort((a, b) => b.name.length - a.name.length);
+}
+
+// Helper function to match a station name or alias at the start of a run of normalized words
+// (e.g. ["palo", "alto", "due", ...]) - longest name wins
+export function matchStationWords(words: string[]): { station: Station; wordCount: number } | undefined {
+  for (const candidate of stationNameCandidates()) {
+    const names = candidate.name.split(' ');
+    const station = names.every((name, index) => words[index] === name) ? getStationById(candidate.id) : undefined;
+    if (station) return { station, wordCount: names.length };
+  }
+  return undefined;
+}
+
+// Helper function to resolve a free-text place (e.g. from an alert) to a station
+export function findStationByText(text: string): Station | undefined {
+  const normalized = normalizeStationText(text);
+  if (!normalized) return undefined;
+
+  const exact = stations.find(station => normalizeStationText(station.name) === normalized);
+  if (exact) return exact;
+
+  const alias = STATION_ALIASES[normalized];
+  if (alias) return getStationById(alias);
+
+  const padded = ` ${normalized} `;
+  const match = stationNameCandidates().find(candidate => padded.includes(` ${candidate.name} `));
+  return match ? getStationById(match.id) : undefined;
+}
+
+// Helper function to find every station mentioned in a piece of text (e.g. an alert)
+export function findStationsInText(text: string): Station[] {
+  let padded = ` ${normalizeStationText(text)} `;
+  const found = new Set<string>();
+
+  for (const candidate of stationNameCandidates()) {
+    if (padded.includes(` ${candidate.name} `)) {
+      found.add(candidate.id);
+      // Blank the match so "South San Francisco" doesn't also count as San Francisco
+      padded = padded.split(` ${candidate.name} `).join(' | ');
+    }
+  }
+
+  return stations.filter(station => found.has(station.id));
+}
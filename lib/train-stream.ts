@@ -0,0 +1,157 @@
+// Live Train Stream
+// One shared real-time poller that pushes delay/status changes to subscribed routes
+
+import { Train, TrainDiff } from './types';
+import { TrainListResult, fetchRealtimeSnapshot, buildTrainList } from './live-trains';
+import { getTrainKey } from './utils';
+
+export const STREAM_POLL_INTERVAL_MS = 30000;
+
+export type TrainStreamEvent =
+  | { type: 'snapshot'; data: TrainListResult & { updatedAt: string } }
+  | { type: 'update'; data: TrainDiff & { updatedAt: string } }
+  | { type: 'heartbeat'; data: { updatedAt: string } };
+
+type Listener = (event: TrainStreamEvent) => void;
+
+interface RouteSubscription {
+  origin: string;
+  destination: string;
+  listeners: Set<Listener>;
+  list: TrainListResult | null; // Last pushed list and mock flags, null until the first poll finishes
+}
+
+// Fields that riders see change between polls
+// observedAt is left out - it moves on every feed refresh even when nothing else does
+const LIVE_FIELDS: (keyof Train)[] = [
+  'delay',
+  'departureDelay',
+  'arrivalDelay',
+  'status',
+  'predictedDelay',
+  'delaySource',
+  'delayConfidence',
+  'conflictingDelays',
+  'skipsOrigin',
+  'skipsDestination',
+];
+
+const routes = new Map<string, RouteSubscription>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let pollInFlight: Promise<void> | null = null;
+
+/**
+ * Compare two train lists by train identity and live fields
+ */
+export function diffTrains(previous: Train[], next: Train[]): TrainDiff {
+  const previousByKey = new Map(previous.map((train) => [getTrainKey(train), train]));
+  const nextKeys = new Set(next.map(getTrainKey));
+
+  const added: Train[] = [];
+  const changed: Train[] = [];
+
+  for (const train of next) {
+    const before = previousByKey.get(getTrainKey(train));
+    if (!before) {
+      added.push(train);
+    } else if (LIVE_FIELDS.some((field) => JSON.stringify(before[field]) !== JSON.stringify(train[field]))) {
+      changed.push(train);
+    }
+  }
+
+  const removed = previous.map(getTrainKey).filter((key) => !nextKeys.has(key));
+
+  return { added, changed, removed };
+}
+
+/**
+ * Fetch the delay sources once and push changes to every subscribed route
+ */
+async function poll(): Promise<void> {
+  // Overlapping polls would fetch the same sources twice
+  if (pollInFlight) return pollInFlight;
+
+  pollInFlight = (async () => {
+    try {
+      const snapshot = await fetchRealtimeSnapshot();
+      const updatedAt = snapshot.fetchedAt.toISOString();
+
+      for (const route of routes.values()) {
+        if (route.listeners.size === 0) continue;
+
+        try {
+          // Same train list /api/trains serves, mock fallbacks included
+          const list = await buildTrainList(route.origin, route.destination, snapshot.fetchedAt, snapshot, {
+            isLiveQuery: true,
+            now: snapshot.fetchedAt
+          });
+          const previous = route.list;
+          let event: TrainStreamEvent;
+
+          // Switching between real and mock data replaces the whole list
+          if (previous === null || previous.isMockData !== list.isMockData || previous.isMockSchedule !== list.isMockSchedule) {
+            event = { type: 'snapshot', data: { ...list, updatedAt } };
+          } else {
+            const diff = diffTrains(previous.trains, list.trains);
+            const hasChanges = diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0;
+            // Heartbeats keep proxies from closing an idle connection
+            event = hasChanges ? { type: 'update', data: { ...diff, updatedAt } } : { type: 'heartbeat', data: { updatedAt } };
+          }
+
+          route.list = list;
+          route.listeners.forEach((listener) => listener(event));
+        } catch (error) {
+          console.error(`Error updating train stream for ${route.origin} -> ${route.destination}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling real-time sources for train stream:', error);
+    } finally {
+      pollInFlight = null;
+    }
+  })();
+
+  return pollInFlight;
+}
+
+/**
+ * Subscribe to live updates for a route
+ * The first subscriber starts the shared poller; the last one to leave stops it.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToTrains(origin: string, destination: string, listener: Listener): () => void {
+  const key = `${origin}>${destination}`;
+  let route = routes.get(key);
+  if (!route) {
+    route = { origin, destination, listeners: new Set(), list: null };
+    routes.set(key, route);
+  }
+  route.listeners.add(listener);
+
+  if (route.list !== null) {
+    // Route already tracked - send what everyone else has
+    listener({ type: 'snapshot', data: { ...route.list, updatedAt: new Date().toISOString() } });
+  } else {
+    // A poll already running may have passed this route - poll again once it finishes
+    const subscribed = route;
+    void (pollInFlight || Promise.resolve()).then(() => {
+      if (subscribed.list === null && subscribed.listeners.size > 0) return poll();
+    });
+  }
+
+  if (!pollTimer) {
+    pollTimer = setInterval(() => void poll(), STREAM_POLL_INTERVAL_MS);
+  }
+
+  return () => {
+    route!.listeners.delete(listener);
+    if (route!.listeners.size === 0 && routes.get(key) === route) {
+      routes.delete(key);
+    }
+    if (routes.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
@@ -0,0 +1,189 @@
+// One-Transfer Trip Planner
+// Finds itineraries that ride one train to an intermediate station and transfer to a faster one
+
+import { GTFSStore, GTFSTrip, GTFSStopTime, TripSegment, findTripsBetweenStops, gtfsTimeToSeconds } from './gtfs-store';
+
+export interface GTFSTransfer {
+  from_stop_id: string;
+  to_stop_id: string;
+  transfer_type: string; // 0 = recommended, 1 = timed, 2 = min_transfer_time required, 3 = not possible
+  min_transfer_time: string; // seconds
+}
+
+export interface TransferItinerary {
+  legs: [TripSegment, TripSegment];
+  transferSeconds: number; // Wait between arriving on the first leg and departing on the second
+}
+
+// Minimum connection times when transfers.txt has no rule for a stop pair
+export const DEFAULT_MIN_TRANSFER_SECONDS = {
+  samePlatform: 60,
+  crossPlatform: 180, // Walk between platforms at the same station
+};
+
+export type TransferRules = Map<string, GTFSTransfer>; // `${from_stop_id}>${to_stop_id}` -> rule
+
+/**
+ * Index transfers.txt rows by stop pair
+ */
+export function buildTransferRules(transfers: GTFSTransfer[]): TransferRules {
+  return new Map(transfers.map((t) => [`${t.from_stop_id}>${t.to_stop_id}`, t]));
+}
+
+/**
+ * Minimum connection time between two platforms
+ *
+ * @returns Seconds required, or null if transfers.txt marks the transfer as not possible
+ */
+export function getMinTransferSeconds(
+  rules: TransferRules,
+  fromStopId: string,
+  toStopId: string
+): number | null {
+  const fallback = fromStopId === toStopId
+    ? DEFAULT_MIN_TRANSFER_SECONDS.samePlatform
+    : DEFAULT_MIN_TRANSFER_SECONDS.crossPlatform;
+
+  const rule = rules.get(`${fromStopId}>${toStopId}`);
+  if (!rule) return fallback;
+
+  switch (rule.transfer_type) {
+    case '1':
+      return 0; // Timed transfer - the departing train waits
+    case '2':
+      return parseInt(rule.min_transfer_time) || fallback;
+    case '3':
+      return null;
+    default:
+      return fallback;
+  }
+}
+
+export interface TransferSearchOptions {
+  originStopId: string;
+  destinationStopId: string;
+  includeTrip: (trip: GTFSTrip) => boolean; // e.g. active service and direction
+  transferPlatforms: (stopId: string) => string[]; // Platforms at the same station as a stop (including itself)
+  transferRules: TransferRules;
+}
+
+/**
+ * Earliest connection from a trip at one stop onto another trip reaching the destination
+ */
+function findBestConnection(
+  store: GTFSStore,
+  firstTrip: GTFSTrip,
+  transferStop: GTFSStopTime,
+  options: TransferSearchOptions
+): { segment: TripSegment; transferSeconds: number } | null {
+  const arrivalSeconds = gtfsTimeToSeconds(transferStop.arrival_time || transferStop.departure_time);
+  let best: { segment: TripSegment; transferSeconds: number } | null = null;
+  let bestArrival = Infinity;
+
+  for (const platformId of options.transferPlatforms(transferStop.stop_id)) {
+    const minTransfer = getMinTransferSeconds(options.transferRules, transferStop.stop_id, platformId);
+    if (minTransfer === null) continue;
+
+    for (const departure of store.departuresByStopId.get(platformId) || []) {
+      const departureSeconds = gtfsTimeToSeconds(departure.departure_time);
+      if (departureSeconds < arrivalSeconds + minTransfer) continue;
+      // Departures are sorted, so nothing later can beat the best arrival
+      if (departureSeconds >= bestArrival) break;
+      if (departure.trip_id === firstTrip.trip_id) continue;
+
+      const trip = store.tripsById.get(departure.trip_id);
+      if (!trip || !options.includeTrip(trip)) continue;
+
+      const destination = store.stopTimeByTripAndStop.get(trip.trip_id)?.get(options.destinationStopId);
+      if (!destination || destination.stop_sequence <= departure.stop_sequence) continue;
+
+      const destinationSeconds = gtfsTimeToSeconds(destination.arrival_time || destination.departure_time);
+      if (destinationSeconds < bestArrival) {
+        bestArrival = destinationSeconds;
+        best = {
+          segment: { trip, origin: departure, destination },
+          transferSeconds: departureSeconds - arrivalSeconds,
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+function segmentDeparture(segment: TripSegment): number {
+  return gtfsTimeToSeconds(segment.origin.departure_time);
+}
+
+function segmentArrival(segment: TripSegment): number {
+  return gtfsTimeToSeconds(segment.destination.arrival_time || segment.destination.departure_time);
+}
+
+/**
+ * Find one-transfer itineraries that beat every direct train
+ *
+ * For each train leaving the origin, tries each later stop as a transfer point and keeps the
+ * connection with the earliest arrival. An itinerary is dropped if a direct train (or another
+ * itinerary) leaves no earlier and arrives no later.
+ *
+ * @returns Itineraries ordered by departure from the origin
+ */
+export function findTransferItineraries(
+  store: GTFSStore,
+  options: TransferSearchOptions
+): TransferItinerary[] {
+  const directs = findTripsBetweenStops(store, options.originStopId, options.destinationStopId, options.includeTrip);
+  const candidates: TransferItinerary[] = [];
+
+  for (const origin of store.departuresByStopId.get(options.originStopId) || []) {
+    const trip = store.tripsById.get(origin.trip_id);
+    if (!trip || !options.includeTrip(trip)) continue;
+
+    let best: TransferItinerary | null = null;
+
+    for (const stop of store.stopTimesByTripId.get(trip.trip_id) || []) {
+      if (stop.stop_sequence <= origin.stop_sequence) continue;
+      // Transferring at or past the destination makes no sense
+      if (stop.stop_id === options.destinationStopId) break;
+
+      const connection = findBestConnection(store, trip, stop, options);
+      if (!connection) continue;
+
+      if (!best || segmentArrival(connection.segment) < segmentArrival(best.legs[1])) {
+        best = {
+          legs: [{ trip, origin, destination: stop }, connection.segment],
+          transferSeconds: connection.transferSeconds,
+        };
+      }
+    }
+
+    if (best) candidates.push(best);
+  }
+
+  const dominated = (departure: number, arrival: number, other: { departure: number; arrival: number }) =>
+    other.departure >= departure && other.arrival <= arrival;
+
+  const directTimes = directs.map((segment) => ({
+    departure: segmentDeparture(segment),
+    arrival: segmentArrival(segment),
+  }));
+
+  const itineraryTimes = candidates.map((itinerary) => ({
+    departure: segmentDeparture(itinerary.legs[0]),
+    arrival: segmentArrival(itinerary.legs[1]),
+  }));
+
+  return candidates
+    .filter((_, i) => {
+      const { departure, arrival } = itineraryTimes[i];
+      if (directTimes.some((direct) => dominated(departure, arrival, direct))) return false;
+
+      // Keep only the latest-leaving of itineraries that arrive together
+      return !itineraryTimes.some((other, j) =>
+        j !== i &&
+        dominated(departure, arrival, other) &&
+        (other.departure > departure || other.arrival < arrival || j < i)
+      );
+    })
+    .sort((a, b) => segmentDeparture(a.legs[0]) - segmentDeparture(b.legs[0]));
+}
@@ -1,7 +1,10 @@
 // Twitter/X @CaltrainAlerts scraper for real-time delay information
 // This serves as a backup when 511.org GTFS-Realtime is unavailable
 
-import puppeteer from 'puppeteer';
+import { TrainDelay } from './caltrain-alerts-scraper';
+
+// Tweets older than this no longer describe where a train is
+export const TWITTER_DELAY_MAX_AGE_MINUTES = 60;
 
 export interface TwitterTrainDelay {
   trainNumber: string;
@@ -17,6 +20,7 @@ export interface TwitterTrainDelay {
  * - "Train 151 is running approximately 19 minutes late."
  * - "Train 425 southbound delayed 9 minutes"
  * - "NB Train 153 on time"
+ * Throws when the timeline can't be scraped.
  */
 export async function scrapeCaltrainAlertsTwitter(): Promise<TwitterTrainDelay[]> {
   console.log('[Twitter Scraper] Function called - starting scrape process');
@@ -132,6 +136,7 @@ export async function scrapeCaltrainAlertsTwitter(): Promise<TwitterTrainDelay[]
 
   } catch (error) {
     console.error('[Twitter Scraper] Error scraping @CaltrainAlerts:', error);
+    throw error;
   } finally {
     if (browser) {
       await browser.close();
@@ -153,7 +158,7 @@ export async function scrapeCaltrainAlertsTwitter(): Promise<TwitterTrainDelay[]
  * - "Train 157 running 5 min late"
  * - "SB 429 delayed by 12 minutes"
  */
-function parseDelayFromTweet(tweetText: string, timestamp: string): TwitterTrainDelay | null {
+export function parseDelayFromTweet(tweetText: string, timestamp: string): TwitterTrainDelay | null {
   // Train number patterns
   const trainNumberPattern = /(?:Train\s+|NB\s+Train\s+|SB\s+Train\s+|NB\s+|SB\s+)?(\d{3})/i;
   const trainMatch = tweetText.match(trainNumberPattern);
@@ -212,6 +217,39 @@ function parseDelayFromTweet(tweetText: string, timestamp: string): TwitterTrain
   return null;
 }
 
+/**
+ * Whether the @CaltrainAlerts scraper is switched on (ENABLE_TWITTER_ALERTS=true)
+ * Off by default - it launches a headless browser and X may block it.
+ */
+export function isTwitterAlertsEnabled(): boolean {
+  return process.env.ENABLE_TWITTER_ALERTS === 'true';
+}
+
+/**
+ * Build a map of train number to delay from recent tweets
+ * Keeps the newest tweet per train and drops anything older than the freshness window.
+ */
+export function extractTwitterTrainDelays(delays: TwitterTrainDelay[], now: Date = new Date()): Map<string, TrainDelay> {
+  const cutoff = now.getTime() - TWITTER_DELAY_MAX_AGE_MINUTES * 60 * 1000;
+  const newest = new Map<string, TwitterTrainDelay>();
+
+  for (const delay of delays) {
+    if (delay.timestamp.getTime() < cutoff) continue;
+
+    const current = newest.get(delay.trainNumber);
+    if (!current || delay.timestamp > current.timestamp) {
+      newest.set(delay.trainNumber, delay);
+    }
+  }
+
+  const trainDelays = new Map<string, TrainDelay>();
+  for (const [trainNumber, delay] of newest) {
+    trainDelays.set(trainNumber, { trainNumber, delayMinutes: delay.delayMinutes, source: 'twitter' });
+  }
+
+  return trainDelays;
+}
+
 /**
  * Get delay for a specific train from Twitter alerts
  */
@@ -4,12 +4,43 @@ export interface Station {
   id: string;
   name: string;
   code: string;
+  gtfsStopId: string; // parent_station stop_id in GTFS stops.txt
   coordinates: {
     lat: number;
     lng: number;
   };
 }
 
+// Service category of a train, from its routes.txt route
+export type TrainType = 'Local' | 'Local Weekend' | 'Limited' | 'Express' | 'South County' | 'Special';
+
+export interface TrainRoute {
+  id: string; // GTFS route_id
+  name: string; // e.g. 'Local Weekend', 'Express'
+  color?: string; // Hex color with '#', from route_color
+  textColor?: string; // Hex color with '#', from route_text_color
+}
+
+export interface TrainLeg {
+  trainNumber: string;
+  tripId: string;
+  type: TrainType;
+  route?: TrainRoute;
+  fromStationId: string;
+  toStationId: string;
+  departureTime: string;
+  arrivalTime: string;
+  waitMinutes?: number; // Wait at the transfer station before boarding this leg
+}
+
+// In priority order
+export type DelaySource = 'gtfs-rt' | 'caltrain.com' | 'twitter' | 'caltrain.com-systemwide' | 'simplifytransit';
+
+export interface DelayReading {
+  source: DelaySource;
+  delay: number; // minutes
+}
+
 export interface Train {
   trainNumber: string;
   tripId?: string; // GTFS trip_id for real-time delay matching
@@ -17,9 +48,108 @@ export interface Train {
   departureTime: string;
   arrivalTime: string;
   duration: number; // in minutes
-  type: 'Local' | 'Limited' | 'Express';
+  type: TrainType;
+  route?: TrainRoute; // GTFS route the trip runs on
+  legs?: TrainLeg[]; // Present for transfer itineraries; direct trains have none
   delay?: number; // delay in minutes (positive = late, negative = early)
+  departureDelay?: number; // estimated delay in minutes leaving the origin
+  arrivalDelay?: number; // estimated delay in minutes reaching the destination
   status?: 'on-time' | 'delayed' | 'cancelled';
+  delaySource?: DelaySource; // Feed the delay came from (unset when no source covers the train)
+  observedAt?: string; // When that feed was fetched (ISO)
+  delayConfidence?: 'low' | 'medium' | 'high';
+  conflictingDelays?: DelayReading[]; // Differing values reported by lower-priority sources
+  predictedDelay?: DelayPrediction; // Forecast for trains without live data - never folded into delay/status
+  skipsOrigin?: boolean; // Real-time feed says the train won't stop at the origin
+  skipsDestination?: boolean; // Real-time feed says the train won't stop at the destination
+  isAdded?: boolean; // Extra train added in real time (not in the published schedule)
+  fare?: number; // adult one-way fare in USD
+}
+
+export interface TrainDiff {
+  added: Train[]; // Trains that entered the window (e.g. the next departure after one leaves)
+  changed: Train[]; // Trains whose delay, status or forecast changed
+  removed: string[]; // Keys (see getTrainKey in utils) of trains that left the window
+}
+
+export interface TrainStop {
+  stationId?: string; // App station id (undefined for stops not offered in the app)
+  stopId: string; // GTFS platform stop_id
+  name: string;
+  platformCode?: string;
+  stopSequence: number;
+  scheduledArrival: string;
+  scheduledDeparture: string;
+  arrival?: string; // Real-time estimate, when the feed has one
+  departure?: string; // Real-time estimate, when the feed has one
+  skipped: boolean; // Stop skipped according to real-time data
+}
+
+export interface TrainDetail {
+  tripId: string;
+  trainNumber: string;
+  direction: 'Northbound' | 'Southbound';
+  type: TrainType;
+  route?: TrainRoute;
+  headsign: string;
+  serviceDate: string; // YYYY-MM-DD (Pacific)
+  hasRealtime: boolean;
+  stops: TrainStop[];
+  passedStations: string[]; // App station ids the train runs through without stopping
+}
+
+export interface TrainPosition {
+  trainNumber: string;
+  tripId: string;
+  direction?: 'Northbound' | 'Southbound';
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  bearing?: number; // degrees clockwise from north
+  status?: 'INCOMING_AT' | 'STOPPED_AT' | 'IN_TRANSIT_TO';
+  stationId?: string; // Station the status refers to
+  timestamp: number; // unix timestamp of the GPS fix
+}
+
+export interface DelayPrediction {
+  expectedDelay: number; // minutes
+  low: number; // minutes, lower end of the likely range
+  high: number; // minutes, upper end of the likely range
+  confidence: 'low' | 'medium' | 'high';
+  basis: Array<'history' | 'upstream'>;
+}
+
+export interface DelayStats {
+  observedDays: number;
+  cancelledDays: number;
+  onTimePercentage: number; // 0-100, within 5 minutes of schedule
+  typicalDelay: number; // median delay in minutes
+  averageDelay: number; // minutes
+  worstDelay: number; // minutes
+}
+
+export interface TrainReliability {
+  trainNumber: string;
+  direction: 'Northbound' | 'Southbound';
+  scheduledDeparture: string; // HH:MM at the origin
+  departure: DelayStats | null; // At the origin
+  arrival: DelayStats | null; // At the destination
+}
+
+export interface FarePrice {
+  category: string; // e.g. 'adult', 'youth', 'senior'
+  name: string;
+  price: number; // in USD, the same on Clipper and paper tickets (GTFS has no per-medium prices)
+}
+
+export interface FareQuote {
+  fareId: string;
+  originZone: number;
+  destinationZone: number;
+  zones: number; // number of zones traveled, including origin and destination
+  currency: string;
+  prices: FarePrice[];
 }
 
 export interface WeatherData {
@@ -35,7 +165,21 @@ export interface ServiceAlert {
   severity: 'info' | 'warning' | 'critical';
   title: string;
   description: string;
-  timestamp: string;
+  timestamp: string; // When posted: the source's start time, else when first seen
+  url?: string;
+  lastSeen?: string; // Last poll that carried the alert
+  endsAt?: string; // Announced end time, if any
+  resolvedAt?: string; // When it dropped out of the feed
+  sources?: Array<'511' | 'caltrain.com' | 'simplifytransit' | 'twitter'>; // Every source that reported it
+}
+
+export interface FacilityOutage {
+  stationId: string;
+  facility: 'elevator' | 'escalator';
+  direction?: 'northbound' | 'southbound'; // Platform, when the notice names one
+  status: 'out-of-service' | 'restored';
+  text: string; // Original notice
+  source: '511' | 'caltrain.com';
 }
 
 export interface SavedRoute {
@@ -50,6 +194,12 @@ export interface RouteInfo {
   destination: Station;
 }
 
+export interface TripTime {
+  mode: 'now' | 'depart' | 'arrive';
+  date: string; // YYYY-MM-DD (Pacific)
+  time: string; // HH:MM (Pacific)
+}
+
 export interface VenueEvent {
   id: string;
   venueName: string;
@@ -1,5 +1,7 @@
 // Utility functions for the Caltrain Commuter App
 
+import { Train } from './types';
+
 /**
  * Format time string to human-readable format
  */
@@ -33,6 +35,37 @@ export function formatDuration(minutes: number): string {
   return `${hours}h ${mins}m`;
 }
 
+/**
+ * Format how long ago a time was (e.g. "25 min ago", "2h 5m ago")
+ */
+export function formatTimeAgo(time: string, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(time).getTime()) / 60000));
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes >= 24 * 60) {
+    const days = Math.floor(minutes / (24 * 60));
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+  }
+  return `${formatDuration(minutes)} ago`;
+}
+
+/**
+ * Format a fare amount in USD
+ */
+export function formatFare(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Stable identity for a train in a list (transfer itineraries include every leg)
+ */
+export function getTrainKey(train: Train): string {
+  return train.legs && train.legs.length > 1
+    ? train.legs.map((leg) => leg.tripId).join('+')
+    : train.tripId || train.trainNumber;
+}
+
 /**
  * Get current date/time as ISO string
  */